@@ -1,53 +1,223 @@
-import React, { useState } from 'react';
-import { SafeAreaView, StatusBar, StyleSheet, Text, View } from 'react-native';
+import React, { useMemo, useRef, useState } from 'react';
+import { Alert, SafeAreaView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { RuleDraft } from './src/components/PermissionRulesEditor';
 import { ChatScreen } from './src/screens/ChatScreen';
 import { ConnectScreen } from './src/screens/ConnectScreen';
+import { AuditLogScreen } from './src/screens/AuditLogScreen';
+import { SearchScreen } from './src/screens/SearchScreen';
 import { SessionsScreen } from './src/screens/SessionsScreen';
-import { useWebSocketServer } from './src/hooks/useWebSocketServer';
-import { PermissionMode, Session } from './src/types';
+import { StorageScreen } from './src/screens/StorageScreen';
+import { TraceInspectorScreen } from './src/screens/TraceInspectorScreen';
+import { REPLAY_SERVER_ID, useWebSocketServer } from './src/hooks/useWebSocketServer';
+import { profileConnectUrl, useServerProfiles } from './src/hooks/useServerProfiles';
+import { useOutbox } from './src/hooks/useOutbox';
+import { usePermissionRules } from './src/hooks/usePermissionRules';
+import { useSessionStore } from './src/hooks/useSessionStore';
+import { ConnectionStatus, PermissionMode, PermissionRule, ServerProfile, Session, TraceFrame } from './src/types';
+import { rulesForSession, ruleSpecs } from './src/permissionRules';
+import { hasCapability } from './src/protocol';
+import { SearchResult, loadSessions, recordAudit } from './src/store';
 import { theme } from './src/theme';
 
-type Screen = 'connect' | 'sessions' | 'chat';
+type Screen = 'connect' | 'sessions' | 'chat' | 'inspector' | 'storage' | 'search' | 'audit';
+
+function isLive(status: ConnectionStatus) {
+  return status === 'connected' || status === 'reconnecting';
+}
 
 export default function App() {
   const [screen, setScreen] = useState<Screen>('connect');
   const [activeSession, setActiveSession] = useState<Session | null>(null);
+  const [chatFocus, setChatFocus] = useState<{ message_id: string; terms: string[] } | undefined>();
+
+  const {
+    connections, sessions, diagnostics,
+    connect, disconnect, clearDiagnostics, getTrace, clearTrace, replayTrace, stopReplay,
+    createSession, resumeSession, forkSession, restoreSessions, dropOfflineSessions, sendMessage, interruptTurn,
+    approvePermission, respondApproval, changePermissionMode, setThreadRules, threadAcceptsRules, setLastBlocked, dismissPermissionDenial, deleteSession,
+  } = useWebSocketServer({
+    onAudit: entry => recordAudit(entry).catch(e => console.warn('[Audit] Failed to record entry:', e)),
+    // The server may have lost or kept stale rules while the thread was out of view; send the device's copy again
+    onThreadResumed: session => {
+      if (!threadAcceptsRules(session.thread_id)) return;
+      setThreadRules(session.thread_id, ruleSpecs(rulesForSession(permissionRules.rules, session)))
+        .catch(e => console.warn('[Rules] Failed to re-send rules:', e));
+    },
+  });
 
   const {
-    url, status, lastError, sessions,
-    connect, disconnect,
-    createSession, sendMessage, interruptTurn,
-    approvePermission, changePermissionMode, setLastBlocked, dismissPermissionDenial, deleteSession,
-  } = useWebSocketServer();
+    profiles, lastProfileId, loaded: profilesLoaded,
+    saveProfile, updateProfile, deleteProfile, setLastProfileId,
+  } = useServerProfiles();
+
+  const outbox = useOutbox(sessions, connections, sendMessage);
+  const store = useSessionStore(sessions, restoreSessions);
+  const permissionRules = usePermissionRules();
+
+  // Auto-connect to the last used server once saved profiles are loaded
+  const autoConnectedRef = useRef(false);
+  React.useEffect(() => {
+    if (!profilesLoaded || autoConnectedRef.current) return;
+    autoConnectedRef.current = true;
+    const last = profiles.find(p => p.id === lastProfileId);
+    if (last) connect(last.id, profileConnectUrl(last));
+  }, [profilesLoaded]);
 
+  // Record the outcome of each connection attempt on its profile, and move
+  // between screens as servers come and go
+  const prevStatusRef = useRef<Record<string, ConnectionStatus>>({});
   React.useEffect(() => {
-    if (status === 'connected' && screen === 'connect') {
+    const prev = prevStatusRef.current;
+    let newlyConnected = false;
+    for (const conn of Object.values(connections)) {
+      if (conn.status === prev[conn.server_id]) continue;
+      if (conn.status === 'connected') {
+        updateProfile(conn.server_id, { lastConnectedAt: Date.now(), lastError: undefined });
+        if (prev[conn.server_id] !== 'reconnecting') newlyConnected = true;
+      } else if (conn.status === 'error') {
+        updateProfile(conn.server_id, { lastError: conn.lastError ?? 'Connection error' });
+      }
+    }
+    prevStatusRef.current = Object.fromEntries(Object.values(connections).map(c => [c.server_id, c.status]));
+
+    // Stored sessions stay readable offline, so only leave when there is nothing left to show
+    const anyLive = Object.values(connections).some(c => isLive(c.status));
+    const anyStored = sessions.some(s => s.server_id !== REPLAY_SERVER_ID);
+    if (newlyConnected && screen === 'connect') {
       setScreen('sessions');
-    } else if ((status === 'disconnected' || status === 'error') && screen !== 'connect') {
+    } else if (!anyLive && !anyStored && (screen === 'sessions' || screen === 'chat' || screen === 'search' || screen === 'audit')) {
       setScreen('connect');
       setActiveSession(null);
     }
-  }, [status]);
+  }, [connections]);
 
   const currentSession = activeSession
     ? sessions.find(s => s.thread_id === activeSession.thread_id) ?? null
     : null;
+  // Kept stable while a reply streams so the queued rows in the chat don't re-render with it
+  const currentQueued = useMemo(
+    () => outbox.entries.filter(e => e.thread_id === currentSession?.thread_id),
+    [outbox.entries, currentSession?.thread_id],
+  );
+
+  // Servers with a connection, plus any whose sessions are only stored on the device
+  const servers = profiles
+    .filter(p => connections[p.id] || sessions.some(s => s.server_id === p.id))
+    .map(p => ({
+      server_id: p.id, name: p.name,
+      status: connections[p.id]?.status ?? 'disconnected' as const, latencyMs: connections[p.id]?.latencyMs ?? null,
+      homeDir: connections[p.id]?.serverInfo?.home_dir,
+    }));
+  const reconnectingCount = servers.filter(s => s.status === 'reconnecting').length;
+  const connectedCount = servers.filter(s => s.status === 'connected').length;
+  const singleLatency = servers.length === 1 ? servers[0].latencyMs : null;
+  const hasOfflineSessions = sessions.some(s => s.server_id !== REPLAY_SERVER_ID
+    && !isLive(connections[s.server_id]?.status ?? 'disconnected'));
+
+  const handleConnect = (profile: ServerProfile) => {
+    saveProfile(profile);
+    setLastProfileId(profile.id);
+    connect(profile.id, profileConnectUrl(profile));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    disconnect(id);
+    deleteProfile(id);
+  };
 
-  const handleOpenSession = (session: Session) => {
+  const handleOpenSession = (session: Session, focus?: { message_id: string; terms: string[] }) => {
     setActiveSession(session);
+    setChatFocus(focus);
     setScreen('chat');
+    // Offline, the stored transcript is all there is
+    if (!session.transcriptLoaded && isLive(connections[session.server_id]?.status ?? 'disconnected')) {
+      resumeSession(session.thread_id).catch(e => {
+        Alert.alert('Could not load session', e instanceof Error ? e.message : String(e));
+      });
+    }
   };
 
-  const handleCreateSession = async (cwd: string, mode: PermissionMode) => {
-    const session = await createSession(cwd, mode);
+  const handleOpenResult = async (result: SearchResult, terms: string[]) => {
+    try {
+      // A session dropped from memory (e.g. its server was disconnected) is still in the store
+      let session = sessions.find(s => s.thread_id === result.thread_id);
+      if (!session) {
+        [session] = await loadSessions(result.thread_id);
+        if (!session) throw new Error('This session is no longer stored on the device');
+        restoreSessions([session]);
+      }
+      handleOpenSession(session, { message_id: result.message_id, terms });
+    } catch (e) {
+      Alert.alert('Could not open session', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleCreateSession = async (server_id: string, cwd: string, mode: PermissionMode) => {
+    const projectRules = rulesForSession(permissionRules.rules, { server_id, cwd });
+    const session = await createSession(server_id, cwd, mode, ruleSpecs(projectRules));
     setActiveSession(session);
+    setChatFocus(undefined);
     setScreen('chat');
   };
 
   const handleSendMessage = async (thread_id: string, content: string, model?: string) => {
     setLastBlocked(thread_id, content);
-    await sendMessage(thread_id, content, model);
+    outbox.enqueue(thread_id, content, model);
+  };
+
+  const handleFork = async (thread_id: string, up_to_turn_id?: string, resend?: { content: string; model?: string }) => {
+    const fork = await forkSession(thread_id, up_to_turn_id);
+    // A fork is a new thread in the same project; session rules stay with the original
+    const projectRules = rulesForSession(permissionRules.rules, { server_id: fork.server_id, cwd: fork.cwd });
+    if (projectRules.length > 0 && hasCapability(connections[fork.server_id]?.serverInfo, 'permission/set_rules')) {
+      await setThreadRules(fork.thread_id, ruleSpecs(projectRules));
+    }
+    setActiveSession(fork);
+    setChatFocus(undefined);
+    if (resend) await handleSendMessage(fork.thread_id, resend.content, resend.model);
+  };
+
+  const handleDeleteSession = async (thread_id: string) => {
+    outbox.dropThread(thread_id);
+    await deleteSession(thread_id);
+    store.forget(thread_id);
+    permissionRules.forgetThread(thread_id);
+  };
+
+  // Send the changed rules to every live thread they apply to: one session, or all of a project's on that server.
+  // The rules are already saved on the device, so a thread that fails is reported without undoing the others.
+  const pushRules = async (rules: PermissionRule[], changed: Pick<PermissionRule, 'scope' | 'server_id' | 'thread_id' | 'cwd'>) => {
+    const affected = sessions.filter(s => (changed.scope === 'session'
+      ? s.thread_id === changed.thread_id
+      : s.server_id === changed.server_id && s.cwd === changed.cwd) && threadAcceptsRules(s.thread_id));
+    const results = await Promise.allSettled(affected.map(s => setThreadRules(s.thread_id, ruleSpecs(rulesForSession(rules, s)))));
+    const failed = results.flatMap((r, i) => r.status === 'rejected'
+      ? [`#${affected[i].thread_id.slice(0, 8)}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`]
+      : []);
+    if (failed.length > 0) throw new Error(`Saved on this device, but the server did not apply it to:\n${failed.join('\n')}`);
+  };
+
+  const handleAddRule = async (thread_id: string, draft: RuleDraft) => {
+    const session = sessions.find(s => s.thread_id === thread_id);
+    if (!session) return;
+    const rule = {
+      ...draft,
+      server_id: session.server_id,
+      thread_id: draft.scope === 'session' ? thread_id : undefined,
+      cwd: draft.scope === 'project' ? session.cwd : undefined,
+    };
+    const next = permissionRules.addRule(rule);
+    await pushRules(next, rule);
+  };
+
+  const handleRemoveRule = async (_thread_id: string, rule: PermissionRule) => {
+    await pushRules(permissionRules.removeRule(rule.id), rule);
+  };
+
+  const handleClearLocalData = async () => {
+    await store.clear();
+    dropOfflineSessions();
   };
 
   const handleApprove = async (thread_id: string, mode: PermissionMode) => {
@@ -58,6 +228,32 @@ export default function App() {
     dismissPermissionDenial(thread_id);
   };
 
+  const handleReplay = (frames: TraceFrame[]) => {
+    const { sessions: replayed, done } = replayTrace(frames);
+    if (replayed.length === 0) return;
+    setActiveSession(replayed[0]);
+    setChatFocus(undefined);
+    setScreen('chat');
+    done.catch(e => console.warn('[Replay] Failed:', e));
+  };
+
+  const isReplay = activeSession?.server_id === REPLAY_SERVER_ID;
+  const liveInfo = currentSession && !isReplay && connections[currentSession.server_id]?.status === 'connected'
+    ? connections[currentSession.server_id]?.serverInfo
+    : undefined;
+  const canFork = hasCapability(liveInfo, 'thread/fork');
+  const canSetRules = hasCapability(liveInfo, 'permission/set_rules');
+
+  const handleChatBack = () => {
+    if (isReplay) {
+      stopReplay();
+      setActiveSession(null);
+      setScreen('inspector');
+      return;
+    }
+    setScreen('sessions');
+  };
+
   return (
     <SafeAreaProvider>
     <View style={styles.root}>
@@ -65,11 +261,41 @@ export default function App() {
       {screen === 'connect' && (
         <SafeAreaView style={styles.safeArea}>
           <ConnectScreen
-            status={status}
-            lastError={lastError}
-            url={url}
-            onConnect={connect}
-            onDisconnect={() => { disconnect(); setScreen('connect'); }}
+            connections={connections}
+            diagnostics={diagnostics}
+            profiles={profiles}
+            activeProfileId={lastProfileId}
+            onConnect={handleConnect}
+            onSaveProfile={saveProfile}
+            onDeleteProfile={handleDeleteProfile}
+            onDisconnect={disconnect}
+            onClearDiagnostics={clearDiagnostics}
+            onShowSessions={servers.some(s => isLive(s.status)) || hasOfflineSessions ? () => setScreen('sessions') : undefined}
+            onShowTrace={() => setScreen('inspector')}
+            onShowStorage={() => setScreen('storage')}
+          />
+        </SafeAreaView>
+      )}
+      {screen === 'storage' && (
+        <SafeAreaView style={styles.safeArea}>
+          <StorageScreen
+            retentionDays={store.retentionDays}
+            onChangeRetention={store.changeRetention}
+            onClearData={handleClearLocalData}
+            auditRetentionDays={store.auditRetentionDays}
+            onChangeAuditRetention={store.changeAuditRetention}
+            onClearAuditLog={store.clearAuditLog}
+            onBack={() => setScreen('connect')}
+          />
+        </SafeAreaView>
+      )}
+      {screen === 'inspector' && (
+        <SafeAreaView style={styles.safeArea}>
+          <TraceInspectorScreen
+            getTrace={getTrace}
+            onClearTrace={clearTrace}
+            onReplay={handleReplay}
+            onBack={() => setScreen('connect')}
           />
         </SafeAreaView>
       )}
@@ -77,25 +303,67 @@ export default function App() {
         <SafeAreaView style={styles.safeArea}>
           <View style={styles.header}>
             <Text style={styles.headerTitle}>Sessions</Text>
-            <Text style={styles.headerStatus}>● Connected</Text>
+            <View style={styles.headerRight}>
+              {reconnectingCount > 0 ? (
+                <Text style={[styles.headerStatus, styles.headerStatusWarn]}>◌ Reconnecting ({reconnectingCount})</Text>
+              ) : connectedCount === 0 ? (
+                <Text style={[styles.headerStatus, styles.headerStatusOffline]}>○ Offline</Text>
+              ) : (
+                <Text style={styles.headerStatus}>
+                  ● {connectedCount > 1 ? `${connectedCount} connected` : 'Connected'}
+                  {singleLatency !== null && <Text style={styles.headerLatency}> · {singleLatency}ms</Text>}
+                </Text>
+              )}
+              <TouchableOpacity style={styles.serversBtn} onPress={() => setScreen('connect')}>
+                <Text style={styles.serversBtnText}>Servers</Text>
+              </TouchableOpacity>
+            </View>
           </View>
           <SessionsScreen
             sessions={sessions}
+            servers={servers}
             onCreateSession={handleCreateSession}
             onOpenSession={handleOpenSession}
-            onDeleteSession={deleteSession}
+            onDeleteSession={handleDeleteSession}
+            onSearch={() => setScreen('search')}
           />
         </SafeAreaView>
       )}
+      {screen === 'search' && (
+        <SafeAreaView style={styles.safeArea}>
+          <SearchScreen onOpenResult={handleOpenResult} onBack={() => setScreen('sessions')} />
+        </SafeAreaView>
+      )}
+      {screen === 'audit' && currentSession && (
+        <SafeAreaView style={styles.safeArea}>
+          <AuditLogScreen thread_id={currentSession.thread_id} cwd={currentSession.cwd} onBack={() => setScreen('chat')} />
+        </SafeAreaView>
+      )}
       {screen === 'chat' && currentSession && (
         <ChatScreen
+          key={currentSession.thread_id}
           session={currentSession}
+          reconnecting={connections[currentSession.server_id]?.status === 'reconnecting'}
+          offline={!isReplay && !isLive(connections[currentSession.server_id]?.status ?? 'disconnected')}
+          latencyMs={connections[currentSession.server_id]?.latencyMs ?? null}
+          models={connections[currentSession.server_id]?.serverInfo?.models}
+          readOnly={isReplay}
+          focus={chatFocus}
+          queued={currentQueued}
           onSendMessage={handleSendMessage}
+          onRetryQueued={outbox.retry}
+          onCancelQueued={outbox.cancel}
           onInterrupt={interruptTurn}
           onApprovePermission={handleApprove}
+          onRespondApproval={respondApproval}
           onChangePermission={changePermissionMode}
+          rules={rulesForSession(permissionRules.rules, currentSession)}
+          onAddRule={canSetRules ? handleAddRule : undefined}
+          onRemoveRule={canSetRules ? handleRemoveRule : undefined}
+          onShowAudit={isReplay ? undefined : () => setScreen('audit')}
           onDismissBanner={handleDismissBanner}
-          onBack={() => setScreen('sessions')}
+          onFork={canFork ? handleFork : undefined}
+          onBack={handleChatBack}
         />
       )}
     </View>
@@ -113,4 +381,14 @@ const styles = StyleSheet.create({
   },
   headerTitle: { color: theme.fg, fontSize: 18, fontWeight: '700' },
   headerStatus: { color: theme.green, fontSize: 13, fontWeight: '600' },
+  headerStatusWarn: { color: theme.yellow },
+  headerStatusOffline: { color: theme.fgDimmer },
+  headerLatency: { color: theme.fgDimmer, fontWeight: '400', fontFamily: 'monospace' },
+  headerRight: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  serversBtn: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  serversBtnText: { color: theme.fgDim, fontSize: 12, fontWeight: '600' },
 });
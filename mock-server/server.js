@@ -0,0 +1,401 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for claude-app-server. Speaks the same JSON-RPC over WebSocket
+ * protocol, but turns are played back from scenario files instead of a model.
+ *
+ *   npm run mock-server -- [--port 8765] [--scenario streaming] [--key secret] [--capabilities ping,thread/list]
+ *
+ * A prompt starting with `/scenario <name>` plays that scenario for one turn.
+ */
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const WebSocket = require('ws');
+
+const SCENARIO_DIR = path.join(__dirname, 'scenarios');
+const ALL_CAPABILITIES = [
+  'thread/list', 'thread/resume', 'thread/fork', 'turn/attach', 'ping', 'batch', 'request/cancel', 'approval/request',
+  'permission/set_rules',
+];
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+const MODELS = ['claude-opus-4-5', 'claude-sonnet-4-5', 'claude-haiku-4-5'];
+
+class RpcError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function parseArgs(argv) {
+  const opts = { port: 8765, scenario: 'streaming', key: null, capabilities: ALL_CAPABILITIES };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    if (arg === '--port') opts.port = Number(next());
+    else if (arg === '--scenario') opts.scenario = next();
+    else if (arg === '--key') opts.key = next();
+    else if (arg === '--capabilities') opts.capabilities = next().split(',').filter(Boolean);
+    else if (arg === '--help') {
+      console.log('usage: server.js [--port N] [--scenario NAME] [--key PAIR_KEY] [--capabilities a,b,c]');
+      console.log(`scenarios: ${listScenarios().join(', ')}`);
+      process.exit(0);
+    } else {
+      console.warn(`[Mock] Ignoring unknown argument ${arg}`);
+    }
+  }
+  return opts;
+}
+
+function listScenarios() {
+  return fs.readdirSync(SCENARIO_DIR).filter(f => f.endsWith('.json')).map(f => f.slice(0, -5));
+}
+
+function loadScenario(name) {
+  const file = path.join(SCENARIO_DIR, `${name}.json`);
+  if (!fs.existsSync(file)) throw new RpcError(-32602, `unknown scenario '${name}' (have: ${listScenarios().join(', ')})`);
+  const scenario = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(scenario.steps)) throw new Error(`${file}: "steps" must be an array`);
+  return scenario;
+}
+
+let idCounter = 1;
+const newId = (prefix) => `${prefix}_${Date.now().toString(36)}${(idCounter++).toString(36)}`;
+
+// ─── State ───────────────────────────────────────────────────────────────────
+
+const opts = parseArgs(process.argv.slice(2));
+const threads = new Map(); // thread_id → { thread_id, created_at, cwd, permission_mode, active_turn_id, turns, allowed_tools, rules }
+const runs = new Map(); // turn_id → { interrupted, wake }
+const approvals = new Map(); // request_id → { thread_id, turn_id, request, resolve }
+const clients = new Set();
+
+function broadcast(method, params) {
+  const frame = JSON.stringify({ jsonrpc: '2.0', method, params });
+  for (const ws of clients) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(frame);
+  }
+}
+
+function getThread(thread_id) {
+  const thread = threads.get(thread_id);
+  if (!thread) throw new RpcError(-32602, `unknown thread ${thread_id}`);
+  return thread;
+}
+
+function globToRegExp(glob) {
+  const body = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '\u0001')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?')
+    .replace(/\u0001/g, '.*');
+  return new RegExp(`^${body}$`);
+}
+
+/** Whether a `Tool(specifier)` rule covers a call: `prefix:*` or an exact command for Bash, a glob on the path otherwise. */
+function ruleMatches(rule, name, input, cwd) {
+  const match = /^([A-Za-z][\w-]*)(?:\((.+)\))?$/s.exec(rule.trim());
+  if (!match || match[1] !== name) return false;
+  const spec = match[2]?.trim();
+  if (!spec) return true;
+  if (name === 'Bash') {
+    const command = String(input.command ?? '');
+    return spec.endsWith(':*') ? command.startsWith(spec.slice(0, -2)) : command === spec;
+  }
+  const target = input.file_path ?? input.path ?? input.url;
+  if (typeof target !== 'string') return false;
+  const re = globToRegExp(spec);
+  return re.test(target) || (path.isAbsolute(target) && re.test(path.relative(cwd, target)));
+}
+
+/** 'deny' or 'allow' from the first rule that decides, deny rules first; undefined when none match. */
+function ruleVerdict(thread, name, input) {
+  const matching = thread.rules.filter(r => ruleMatches(r.rule, name, input, thread.cwd));
+  return matching.find(r => r.effect === 'deny') ?? matching.find(r => r.effect === 'allow');
+}
+
+function pickScenario(content) {
+  const match = /^\/scenario\s+([\w-]+)/.exec(content);
+  return loadScenario(match ? match[1] : opts.scenario);
+}
+
+// ─── Turn playback ───────────────────────────────────────────────────────────
+
+/** Play a scenario's steps as notifications for one turn. Runs detached from any socket so drops don't stop it. */
+async function playTurn(thread, turn, scenario) {
+  const run = { interrupted: false, wake: null };
+  runs.set(turn.id, run);
+  const ids = { thread_id: thread.thread_id, turn_id: turn.id };
+  const pause = async (ms) => {
+    if (run.interrupted) return;
+    await new Promise(resolve => {
+      run.wake = resolve;
+      setTimeout(resolve, ms);
+    });
+    run.wake = null;
+  };
+  const addItem = (item, id = newId('item')) => {
+    const stored = { id, created_at: Date.now(), item };
+    turn.items.push(stored);
+    broadcast('item/created', { ...ids, item: stored });
+  };
+  // Stream text as item/progress deltas keyed by the item they will become; false if interrupted
+  const stream = async (type, text, extra, size, interval) => {
+    for (let i = 0; i < text.length && !run.interrupted; i += size) {
+      broadcast('item/progress', { ...ids, delta: { type, text: text.slice(i, i + size), ...extra } });
+      await pause(interval);
+    }
+    return !run.interrupted;
+  };
+  const allowedWithoutAsking = (name) => thread.permission_mode === 'bypassPermissions'
+    || thread.allowed_tools.includes(name)
+    || (thread.permission_mode === 'acceptEdits' && EDIT_TOOLS.includes(name));
+  // Hold a gated tool call until a client answers; resolves to { approved, reason }
+  const askApproval = (name, input, tool_use_id) => {
+    const request = { request_id: newId('approval'), turn_id: turn.id, tool_name: name, tool_use_id, tool_input: input };
+    broadcast('approval/requested', { thread_id: thread.thread_id, ...request });
+    return new Promise(resolve => {
+      const settle = (answer) => {
+        approvals.delete(request.request_id);
+        run.wake = null;
+        broadcast('approval/resolved', { ...ids, request_id: request.request_id, approved: answer.approved });
+        resolve(answer);
+      };
+      approvals.set(request.request_id, { thread_id: thread.thread_id, turn_id: turn.id, request, resolve: settle });
+      run.wake = () => settle({ approved: false, reason: 'interrupted' });
+    });
+  };
+  const finish = (status, error) => {
+    turn.status = status;
+    turn.ended_at = Date.now();
+    if (error) turn.error = error;
+    thread.active_turn_id = undefined;
+    runs.delete(turn.id);
+    if (status === 'error') broadcast('turn/error', { ...ids, error });
+    else broadcast('turn/completed', { ...ids, status });
+  };
+
+  broadcast('turn/started', ids);
+  for (const step of scenario.steps) {
+    if (run.interrupted) break;
+    await pause(step.delay ?? scenario.delay ?? 0);
+    if (run.interrupted) break;
+
+    const size = step.chunk ?? 8;
+    const interval = step.interval ?? 30;
+    if (step.text !== undefined) {
+      const item_id = newId('item');
+      if (await stream('text', step.text, { item_id }, size, interval)) addItem({ type: 'text', text: step.text }, item_id);
+    } else if (step.thinking !== undefined) {
+      const item_id = newId('item');
+      if (await stream('thinking', step.thinking, { item_id }, size, interval)) {
+        addItem({ type: 'thinking', thinking: step.thinking }, item_id);
+      }
+    } else if (step.tool) {
+      // Tool input streams as partial JSON, then output streams line by line
+      const { name, input = {}, output, is_error } = step.tool;
+      const tool_use_id = newId('toolu');
+      const call_id = newId('item');
+      broadcast('item/progress', { ...ids, delta: { type: 'tool_input', item_id: call_id, tool_use_id, name } });
+      if (!(await stream('tool_input', JSON.stringify(input, null, 2), { item_id: call_id, tool_use_id }, size, interval))) break;
+      addItem({ type: 'tool_call', tool_use_id, name, input }, call_id);
+      const verdict = step.gated ? ruleVerdict(thread, name, input) : undefined;
+      if (verdict?.effect === 'deny') {
+        addItem({ type: 'tool_result', tool_use_id, content: `Denied by rule ${verdict.rule}`, is_error: true });
+        continue;
+      }
+      if (step.gated && !verdict && !allowedWithoutAsking(name)) {
+        if (!opts.capabilities.includes('approval/request')) {
+          // Older servers deny and end the turn; the client approves and sends the prompt again
+          broadcast('turn/permission_denied', { ...ids, denials: [{ tool_name: name, tool_use_id, tool_input: input }] });
+          finish('completed');
+          return;
+        }
+        const answer = await askApproval(name, input, tool_use_id);
+        if (run.interrupted) break;
+        if (!answer.approved) {
+          const content = `Permission to use ${name} was denied${answer.reason ? `: ${answer.reason}` : ''}`;
+          addItem({ type: 'tool_result', tool_use_id, content, is_error: true });
+          continue;
+        }
+      }
+      if (output === undefined) continue;
+      const result_id = newId('item');
+      const lines = output.split(/(?<=\n)/);
+      for (const line of lines) {
+        if (run.interrupted) break;
+        broadcast('item/progress', { ...ids, delta: { type: 'tool_output', item_id: result_id, tool_use_id, text: line } });
+        await pause(step.lineInterval ?? 120);
+      }
+      if (!run.interrupted) addItem({ type: 'tool_result', tool_use_id, content: output, is_error }, result_id);
+    } else if (step.item) {
+      addItem(step.item);
+    } else if (step.emit) {
+      broadcast(step.emit, { ...ids, ...step.params });
+    } else if (step.deny) {
+      if ((step.unlessMode ?? []).includes(thread.permission_mode)) continue;
+      broadcast('turn/permission_denied', { ...ids, denials: step.deny });
+      finish('completed');
+      return;
+    } else if (step.error) {
+      finish('error', step.error);
+      return;
+    } else if (step.drop) {
+      console.log(`[Mock] Dropping ${clients.size} client(s) mid-turn`);
+      for (const ws of clients) ws.terminate();
+    } else if (step.hold) {
+      // Park until interrupted, e.g. to exercise turn/interrupt
+      await pause(step.hold);
+    }
+  }
+  finish(run.interrupted ? 'interrupted' : 'completed');
+}
+
+// ─── Requests ────────────────────────────────────────────────────────────────
+
+const handlers = {
+  'initialize': (params) => {
+    console.log(`[Mock] initialize from ${params?.client?.name ?? 'unknown'} (protocol v${params?.protocol_version ?? 0})`);
+    return {
+      server: { name: 'claude-app-server (mock)', version: '0.0.0' },
+      protocol_version: 1,
+      capabilities: opts.capabilities,
+      models: MODELS,
+      home_dir: os.homedir(),
+    };
+  },
+
+  'ping': () => ({}),
+
+  'thread/start': ({ cwd, permission_mode, permission_rules }) => {
+    const thread = {
+      thread_id: newId('thread'), created_at: Date.now(), cwd, permission_mode: permission_mode ?? 'default',
+      active_turn_id: undefined, turns: [], allowed_tools: [], rules: permission_rules ?? [],
+    };
+    threads.set(thread.thread_id, thread);
+    return { thread_id: thread.thread_id, created_at: thread.created_at };
+  },
+
+  'thread/list': () => ({
+    threads: [...threads.values()].map(t => ({ ...t, turns: t.turns.map(({ items, ...turn }) => turn) })),
+  }),
+
+  'thread/resume': ({ thread_id }) => ({ thread: getThread(thread_id) }),
+
+  'thread/fork': ({ thread_id, up_to_turn_id }) => {
+    const parent = getThread(thread_id);
+    const end = up_to_turn_id === undefined ? 0 : parent.turns.findIndex(t => t.id === up_to_turn_id) + 1;
+    if (end === 0 && up_to_turn_id !== undefined) throw new RpcError(-32602, `unknown turn ${up_to_turn_id}`);
+    const turns = parent.turns.slice(0, end);
+    if (turns.some(t => t.status === 'active')) throw new RpcError(-32000, 'cannot fork while that turn is running');
+    const thread = {
+      thread_id: newId('thread'), created_at: Date.now(), cwd: parent.cwd, permission_mode: parent.permission_mode,
+      active_turn_id: undefined, allowed_tools: [], rules: [], parent_thread_id: thread_id, forked_from_turn_id: up_to_turn_id,
+      turns: turns.map(t => ({ ...t, items: [...t.items] })),
+    };
+    threads.set(thread.thread_id, thread);
+    return { thread };
+  },
+
+  'turn/start': ({ thread_id, content, model }) => {
+    const thread = getThread(thread_id);
+    if (thread.active_turn_id) throw new RpcError(-32000, 'a turn is already running on this thread');
+    const scenario = pickScenario(content);
+    const turn = { id: newId('turn'), status: 'active', user_content: content, items: [], model, started_at: Date.now() };
+    thread.turns.push(turn);
+    thread.active_turn_id = turn.id;
+    console.log(`[Mock] ${thread_id}: playing '${scenario.name ?? 'unnamed'}' as ${turn.id}`);
+    playTurn(thread, turn, scenario).catch(e => console.warn('[Mock] Scenario failed:', e));
+    return { turn_id: turn.id };
+  },
+
+  'turn/interrupt': ({ thread_id }) => {
+    const thread = getThread(thread_id);
+    const run = thread.active_turn_id && runs.get(thread.active_turn_id);
+    if (run) {
+      run.interrupted = true;
+      run.wake?.();
+    }
+    return {};
+  },
+
+  'turn/attach': ({ thread_id, turn_id }) => {
+    const turn = getThread(thread_id).turns.find(t => t.id === turn_id);
+    if (!turn) throw new RpcError(-32602, `unknown turn ${turn_id}`);
+    const pending = [...approvals.values()].filter(a => a.turn_id === turn_id).map(a => a.request);
+    return { status: turn.status, items: turn.items, error: turn.error, approvals: pending };
+  },
+
+  'permission/set_rules': ({ thread_id, rules }) => {
+    if (!Array.isArray(rules)) throw new RpcError(-32602, 'rules must be an array');
+    getThread(thread_id).rules = rules;
+    console.log(`[Mock] ${thread_id}: ${rules.length} permission rule(s)`);
+    return {};
+  },
+
+  'approval/respond': ({ thread_id, approved, permission_mode, request_id, scope, reason }) => {
+    const thread = getThread(thread_id);
+    if (request_id !== undefined) {
+      const pending = approvals.get(request_id);
+      if (!pending || pending.thread_id !== thread_id) throw new RpcError(-32602, `no pending approval ${request_id}`);
+      if (approved && scope === 'session' && !thread.allowed_tools.includes(pending.request.tool_name)) {
+        thread.allowed_tools.push(pending.request.tool_name);
+      }
+      pending.resolve({ approved, reason });
+      return {};
+    }
+    if (approved && permission_mode) thread.permission_mode = permission_mode;
+    return {};
+  },
+};
+
+function handleRequest(msg) {
+  const respond = (body) => ({ jsonrpc: '2.0', id: msg.id, ...body });
+  const handler = handlers[msg.method];
+  if (!handler) return respond({ error: { code: -32601, message: `method not found: ${msg.method}` } });
+  try {
+    return respond({ result: handler(msg.params ?? {}) });
+  } catch (e) {
+    const code = e instanceof RpcError ? e.code : -32603;
+    return respond({ error: { code, message: e instanceof Error ? e.message : String(e) } });
+  }
+}
+
+function handleMessage(ws, data) {
+  let msg;
+  try {
+    msg = JSON.parse(String(data));
+  } catch {
+    ws.send(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'parse error' } }));
+    return;
+  }
+  if (Array.isArray(msg)) {
+    const replies = msg.filter(m => m.id !== undefined).map(handleRequest);
+    if (replies.length > 0) ws.send(JSON.stringify(replies));
+    return;
+  }
+  if (msg.id === undefined) return; // client notifications such as request/cancel need no reply
+  ws.send(JSON.stringify(handleRequest(msg)));
+}
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+const wss = new WebSocket.Server({ port: opts.port });
+
+wss.on('connection', (ws, req) => {
+  const key = new URL(req.url ?? '/', 'ws://localhost').searchParams.get('key');
+  if (opts.key && key !== opts.key) {
+    ws.close(4001, 'Invalid pair key');
+    return;
+  }
+  clients.add(ws);
+  ws.on('message', (data) => handleMessage(ws, data));
+  ws.on('close', () => clients.delete(ws));
+});
+
+wss.on('listening', () => {
+  console.log(`[Mock] Listening on ws://localhost:${wss.address().port} — default scenario '${opts.scenario}'`);
+  console.log(`[Mock] Scenarios: ${listScenarios().join(', ')}`);
+});
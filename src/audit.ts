@@ -0,0 +1,32 @@
+import { shareFile } from './share';
+import { AuditEntry } from './types';
+
+export type AuditFormat = 'csv' | 'json';
+
+const CSV_COLUMNS = ['time', 'kind', 'outcome', 'tool', 'tool_use_id', 'input', 'detail'] as const;
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function auditCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(e => [
+    new Date(e.at).toISOString(), e.kind, e.outcome, e.tool_name ?? '', e.tool_use_id ?? '',
+    e.tool_input === undefined ? '' : JSON.stringify(e.tool_input), e.detail ?? '',
+  ].map(csvField).join(','));
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+}
+
+export function auditJson(thread_id: string, entries: AuditEntry[]): string {
+  return JSON.stringify({ thread_id, exported_at: Date.now(), entries: entries.map(({ id: _id, ...e }) => e) }, null, 2);
+}
+
+/** Write the log to a file and open the share sheet for it. */
+export async function shareAuditLog(thread_id: string, entries: AuditEntry[], format: AuditFormat): Promise<void> {
+  await shareFile(
+    `clode-audit-${thread_id.slice(0, 8)}.${format}`,
+    format === 'csv' ? 'text/csv' : 'application/json',
+    format === 'csv' ? auditCsv(entries) : auditJson(thread_id, entries),
+    `Export audit log for #${thread_id.slice(0, 8)}`,
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { ApprovalDecision, ApprovalRequest } from '../types';
+import { theme } from '../theme';
+import { toolInputSummary } from '../toolInput';
+import { FileEditPreview, hasFileEditPreview } from './FileEditPreview';
+
+interface Props {
+  request: ApprovalRequest;
+  onRespond?: (request: ApprovalRequest, decision: ApprovalDecision, reason?: string) => Promise<void>; // omitted when read only
+}
+
+/**
+ * A tool call the server is holding for approval. The turn waits, so the
+ * answer lets it carry on in place rather than starting over.
+ */
+export function ApprovalCard({ request, onRespond }: Props) {
+  const [denying, setDenying] = useState(false);
+  const [reason, setReason] = useState('');
+  const busy = !!request.responding;
+  // The full input, or the edit's diff, is shown below it
+  const summary = toolInputSummary(request.tool_input);
+
+  const respond = async (decision: ApprovalDecision) => {
+    if (!onRespond) return;
+    try {
+      await onRespond(request, decision, decision === 'deny' ? reason.trim() || undefined : undefined);
+    } catch (e) {
+      Alert.alert('Could not send your answer', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>⏸ {request.tool_name} needs approval</Text>
+      {!!summary && <Text style={styles.summary} selectable numberOfLines={4}>{summary}</Text>}
+      {hasFileEditPreview(request.tool_name, request.tool_input) ? (
+        <FileEditPreview name={request.tool_name} input={request.tool_input} />
+      ) : (
+        <ScrollView style={styles.inputBox} nestedScrollEnabled>
+          <Text style={styles.inputText} selectable>{JSON.stringify(request.tool_input ?? {}, null, 2)}</Text>
+        </ScrollView>
+      )}
+
+      {denying ? (
+        <>
+          <TextInput
+            style={styles.reasonInput}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (optional), passed back to Claude"
+            placeholderTextColor={theme.fgMuted}
+            multiline
+            maxLength={500}
+            editable={!busy}
+            autoFocus
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.btn} onPress={() => setDenying(false)} disabled={busy}>
+              <Text style={styles.btnText}>Back</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.btn, styles.denyBtn]} onPress={() => respond('deny')} disabled={busy}>
+              <Text style={[styles.btnText, styles.denyText]}>{busy ? 'Sending...' : 'Deny'}</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : onRespond ? (
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.btn, styles.allowBtn]} onPress={() => respond('allow_once')} disabled={busy}>
+            <Text style={[styles.btnText, styles.allowText]}>Allow once</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.btn} onPress={() => respond('allow_always')} disabled={busy}>
+            <Text style={styles.btnText} numberOfLines={1}>Always allow {request.tool_name}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.btn, styles.denyBtn]} onPress={() => setDenying(true)} disabled={busy}>
+            <Text style={[styles.btnText, styles.denyText]}>Deny…</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+      {busy && !denying && <Text style={styles.meta}>sending...</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16, marginTop: 4, marginBottom: 12,
+    padding: 12, borderRadius: 10, borderWidth: 1, gap: 8,
+    backgroundColor: theme.yellowBg, borderColor: theme.yellow,
+  },
+  title: { color: theme.yellow, fontSize: 12, fontWeight: '700', fontFamily: 'monospace' },
+  summary: { color: theme.fg, fontSize: 13, fontFamily: 'monospace' },
+  inputBox: {
+    maxHeight: 180,
+    backgroundColor: theme.bgDark, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 8,
+  },
+  inputText: { color: theme.fgDim, fontSize: 11, fontFamily: 'monospace' },
+  reasonInput: {
+    backgroundColor: theme.bg, borderColor: theme.border, borderWidth: 1,
+    borderRadius: 8, paddingHorizontal: 10, paddingVertical: 8,
+    color: theme.fg, fontSize: 13, maxHeight: 100,
+  },
+  actions: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  btn: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 7,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  btnText: { color: theme.fgDim, fontSize: 12, fontWeight: '600' },
+  allowBtn: { backgroundColor: theme.greenBg, borderColor: theme.green },
+  allowText: { color: theme.green },
+  denyBtn: { backgroundColor: theme.redBg, borderColor: theme.red },
+  denyText: { color: theme.red },
+  meta: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+});
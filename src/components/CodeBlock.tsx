@@ -0,0 +1,96 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { highlightLines, TOKEN_COLORS } from '../highlight';
+import { hasMatch, highlighted } from '../searchTerms';
+import { theme } from '../theme';
+
+/** A fenced block, colored by language, with line numbers; long lines scroll sideways instead of wrapping. */
+export function CodeBlock({ code, lang, terms }: { code: string; lang?: string; terms?: string[] }) {
+  const lines = useMemo(() => highlightLines(code, lang), [code, lang]);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const id = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(id);
+  }, [copied]);
+
+  const handleCopy = () => {
+    Clipboard.setStringAsync(code)
+      .then(() => setCopied(true))
+      .catch(e => Alert.alert('Copy failed', e instanceof Error ? e.message : String(e)));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.lang}>{lang ?? ''}</Text>
+        <TouchableOpacity onPress={handleCopy} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={[styles.copy, copied && styles.copied]}>{copied ? '✓ copied' : 'copy'}</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.body}>
+        <View style={styles.gutter}>
+          {lines.map((_, i) => <Text key={i} style={styles.lineNumber}>{i + 1}</Text>)}
+        </View>
+        <ScrollView
+          horizontal
+          nestedScrollEnabled
+          showsHorizontalScrollIndicator={false}
+          style={styles.scroll}
+          contentContainerStyle={styles.lines}
+        >
+          <View>
+            {lines.map((tokens, i) => {
+              const text = tokens.map(t => t.text).join('');
+              // A search match can span tokens, so a matching line gives up its colors for the highlight
+              return (
+                <Text key={i} style={styles.line} selectable>
+                  {hasMatch(text, terms)
+                    ? highlighted(text, terms)
+                    : tokens.length === 0 ? ' ' : tokens.map((t, j) => t.kind === 'plain'
+                      ? t.text
+                      : <Text key={j} style={{ color: TOKEN_COLORS[t.kind] }}>{t.text}</Text>)}
+                </Text>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.bgDark,
+    borderRadius: 8,
+    borderWidth: 1, borderColor: theme.border,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row', alignItems: 'center',
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1, borderBottomColor: theme.border,
+    paddingHorizontal: 10, paddingVertical: 4,
+  },
+  lang: { flex: 1, color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+  copy: { color: theme.accent, fontSize: 10, fontFamily: 'monospace' },
+  copied: { color: theme.green },
+  body: { flexDirection: 'row', paddingVertical: 8 },
+  gutter: {
+    paddingLeft: 8, paddingRight: 6,
+    borderRightWidth: 1, borderRightColor: theme.borderDim,
+  },
+  lineNumber: {
+    color: theme.fgMuted, fontFamily: 'monospace',
+    fontSize: 12, lineHeight: 18, textAlign: 'right',
+  },
+  scroll: { flexShrink: 1 },
+  lines: { paddingHorizontal: 8 },
+  line: {
+    color: theme.fg, fontFamily: 'monospace',
+    fontSize: 12, lineHeight: 18,
+  },
+});
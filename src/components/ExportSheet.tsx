@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Alert, Modal, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { Session } from '../types';
+import { TranscriptFormat, TranscriptOptions, shareTranscript } from '../transcript';
+import { theme } from '../theme';
+
+interface Props {
+  session: Session;
+  visible: boolean;
+  onClose: () => void;
+}
+
+const FORMATS: { format: TranscriptFormat; label: string; hint: string }[] = [
+  { format: 'markdown', label: 'Markdown', hint: 'for PR descriptions and docs' },
+  { format: 'html', label: 'HTML', hint: 'standalone page, styled like the chat' },
+  { format: 'json', label: 'JSON', hint: 'lossless, every item as received' },
+];
+
+const OPTIONS: { key: keyof TranscriptOptions; label: string }[] = [
+  { key: 'thinking', label: 'Thinking' },
+  { key: 'toolCalls', label: 'Tool calls and file changes' },
+  { key: 'toolResults', label: 'Tool results and command output' },
+];
+
+/** Pick a format and what to include, then hand the file to the share sheet. */
+export function ExportSheet({ session, visible, onClose }: Props) {
+  const [format, setFormat] = useState<TranscriptFormat>('markdown');
+  const [options, setOptions] = useState<TranscriptOptions>({ thinking: false, toolCalls: true, toolResults: false });
+  const [sharing, setSharing] = useState(false);
+  const lossless = format === 'json';
+
+  const handleShare = async () => {
+    setSharing(true);
+    try {
+      await shareTranscript(session, format, options);
+      onClose();
+    } catch (e) {
+      Alert.alert('Export failed', e instanceof Error ? e.message : String(e));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>Export transcript</Text>
+
+          {FORMATS.map(f => (
+            <TouchableOpacity
+              key={f.format}
+              style={[styles.option, format === f.format && styles.optionSelected]}
+              onPress={() => setFormat(f.format)}
+            >
+              <View style={styles.row}>
+                <View style={[styles.radio, format === f.format && styles.radioSelected]} />
+                <Text style={styles.optionText}>{f.label}</Text>
+                <Text style={styles.optionHint}>{f.hint}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          <Text style={styles.sectionTitle}>Include</Text>
+          {OPTIONS.map(o => (
+            <View key={o.key} style={[styles.toggleRow, lossless && styles.toggleRowDisabled]}>
+              <Text style={styles.toggleText}>{o.label}</Text>
+              <Switch
+                value={lossless || options[o.key]}
+                disabled={lossless}
+                onValueChange={value => setOptions(prev => ({ ...prev, [o.key]: value }))}
+                trackColor={{ true: theme.green, false: theme.border }}
+              />
+            </View>
+          ))}
+          {lossless && <Text style={styles.hint}>JSON exports always include everything.</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelBtn} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.shareBtn, sharing && styles.shareBtnDisabled]} onPress={handleShare} disabled={sharing}>
+              <Text style={styles.shareText}>{sharing ? 'Preparing...' : 'Share'}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: { flex: 1, backgroundColor: theme.overlay, justifyContent: 'center', alignItems: 'center' },
+  sheet: {
+    backgroundColor: theme.surface, borderRadius: 18,
+    padding: 20, width: '88%',
+    borderWidth: 1, borderColor: theme.border,
+  },
+  title: { color: theme.fg, fontSize: 16, fontWeight: '700', marginBottom: 14 },
+  option: { padding: 12, borderRadius: 10, marginBottom: 4 },
+  optionSelected: { backgroundColor: theme.greenBg },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  radio: {
+    width: 16, height: 16, borderRadius: 8,
+    borderWidth: 2, borderColor: theme.border,
+  },
+  radioSelected: { borderColor: theme.green, backgroundColor: theme.green },
+  optionText: { color: theme.fg, fontSize: 14 },
+  optionHint: { flex: 1, color: theme.fgDimmer, fontSize: 11, textAlign: 'right' },
+  sectionTitle: {
+    color: theme.fgDim, fontSize: 11, fontWeight: '700', textTransform: 'uppercase',
+    letterSpacing: 0.5, marginTop: 14, marginBottom: 6,
+  },
+  toggleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 4 },
+  toggleRowDisabled: { opacity: 0.5 },
+  toggleText: { color: theme.fg, fontSize: 13 },
+  hint: { color: theme.fgDimmer, fontSize: 11, marginTop: 4 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 18 },
+  cancelBtn: { paddingHorizontal: 14, paddingVertical: 9 },
+  cancelText: { color: theme.fgDim, fontSize: 14, fontWeight: '600' },
+  shareBtn: { backgroundColor: theme.green, borderRadius: 10, paddingHorizontal: 18, paddingVertical: 9 },
+  shareBtnDisabled: { backgroundColor: theme.surfaceAlt },
+  shareText: { color: '#fff', fontSize: 14, fontWeight: '700' },
+});
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { DiffLine, diffHunks, diffLines, fileEdits } from '../diff';
+import { theme } from '../theme';
+
+/** Lines shown before a long diff or file collapses behind "show more". */
+const COLLAPSED_LINES = 16;
+
+type Row =
+  | { type: 'title'; text: string }
+  | { type: 'skip'; count: number }
+  | { type: 'line'; line: DiffLine; number?: number };
+
+interface Preview {
+  rows: Row[];
+  added: number;
+  removed: number;
+  isNewFile: boolean;
+}
+
+function buildPreview(name: string, input: unknown): Preview | null {
+  if (name === 'Write') {
+    const content = (input as Record<string, unknown> | undefined)?.content;
+    if (typeof content !== 'string') return null;
+    const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+    return {
+      rows: lines.map((text, i) => ({ type: 'line', line: { kind: 'add', text }, number: i + 1 })),
+      added: lines.length, removed: 0, isNewFile: true,
+    };
+  }
+
+  const edits = fileEdits(name, input);
+  if (!edits) return null;
+  const rows: Row[] = [];
+  let added = 0;
+  let removed = 0;
+  edits.forEach((edit, i) => {
+    const lines = diffLines(edit.old_string, edit.new_string);
+    added += lines.filter(l => l.kind === 'add').length;
+    removed += lines.filter(l => l.kind === 'remove').length;
+    if (edits.length > 1 || edit.replace_all) {
+      const title = edits.length > 1 ? `edit ${i + 1} of ${edits.length}` : 'edit';
+      rows.push({ type: 'title', text: edit.replace_all ? `${title} · every occurrence` : title });
+    }
+    diffHunks(lines).forEach(hunk => {
+      if (hunk.skipped > 0) rows.push({ type: 'skip', count: hunk.skipped });
+      hunk.lines.forEach(line => rows.push({ type: 'line', line }));
+    });
+  });
+  return { rows, added, removed, isNewFile: false };
+}
+
+/** The rows that fit in `limit` lines, and how many lines were left out. */
+function collapse(rows: Row[], limit: number): { shown: Row[]; hidden: number } {
+  let lines = 0;
+  let cut = rows.length;
+  for (let i = 0; i < rows.length; i++) {
+    if (rows[i].type !== 'line') continue;
+    if (lines === limit) { cut = i; break; }
+    lines++;
+  }
+  const hidden = rows.slice(cut).filter(r => r.type === 'line').length;
+  return { shown: rows.slice(0, cut), hidden };
+}
+
+const MARKERS: Record<DiffLine['kind'], string> = { add: '+', remove: '−', context: ' ' };
+
+function RowView({ row, gutterWidth }: { row: Row; gutterWidth: number }) {
+  if (row.type === 'title') return <Text style={styles.title}>{row.text}</Text>;
+  if (row.type === 'skip') {
+    return <Text style={styles.skip}>⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</Text>;
+  }
+  const { kind, text } = row.line;
+  const lineStyle = kind === 'add' ? styles.added : kind === 'remove' ? styles.removed : undefined;
+  const textStyle = kind === 'add' ? styles.addedCode : kind === 'remove' ? styles.removedCode : undefined;
+  return (
+    <View style={[styles.line, lineStyle]}>
+      <Text style={[styles.gutter, { width: gutterWidth }, textStyle]}>
+        {row.number !== undefined ? row.number : MARKERS[kind]}
+      </Text>
+      <Text style={[styles.code, textStyle]} selectable>{text || ' '}</Text>
+    </View>
+  );
+}
+
+/** Whether `FileEditPreview` has something better than raw JSON to show for this call. */
+export function hasFileEditPreview(name: string, input: unknown): boolean {
+  if (name === 'Write') return typeof (input as Record<string, unknown> | undefined)?.content === 'string';
+  return fileEdits(name, input) !== null;
+}
+
+/**
+ * Edit and MultiEdit calls as a unified diff with a few lines of context,
+ * Write calls as the new file with line numbers. Long ones collapse.
+ */
+export function FileEditPreview({ name, input }: { name: string; input: unknown }) {
+  const [expanded, setExpanded] = useState(false);
+  const preview = useMemo(() => buildPreview(name, input), [name, input]);
+  if (!preview) return null;
+
+  const { shown, hidden } = expanded ? { shown: preview.rows, hidden: 0 } : collapse(preview.rows, COLLAPSED_LINES);
+  const canCollapse = expanded && collapse(preview.rows, COLLAPSED_LINES).hidden > 0;
+  const gutterWidth = preview.isNewFile ? 8 + String(preview.added).length * 7 : 14;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.stats}>
+        {preview.isNewFile ? (
+          <Text style={styles.statsText}>new file · {preview.added} line{preview.added === 1 ? '' : 's'}</Text>
+        ) : (
+          <>
+            <Text style={styles.addedCount}>+{preview.added}</Text>
+            <Text style={styles.removedCount}>−{preview.removed}</Text>
+          </>
+        )}
+      </View>
+      {shown.length === 0 && <Text style={styles.skip}>{preview.isNewFile ? 'empty file' : 'no changes'}</Text>}
+      {shown.map((row, i) => <RowView key={i} row={row} gutterWidth={gutterWidth} />)}
+      {(hidden > 0 || canCollapse) && (
+        <TouchableOpacity style={styles.more} onPress={() => setExpanded(e => !e)} hitSlop={{ top: 6, bottom: 6 }}>
+          <Text style={styles.moreText}>
+            {hidden > 0 ? `show ${hidden} more line${hidden === 1 ? '' : 's'}` : 'show less'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.bgDark,
+    borderRadius: 6, overflow: 'hidden',
+    marginTop: 6, paddingVertical: 4,
+  },
+  stats: { flexDirection: 'row', gap: 8, paddingHorizontal: 8, paddingBottom: 4 },
+  statsText: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+  title: {
+    color: theme.fgDim, fontSize: 10, fontWeight: '700', fontFamily: 'monospace',
+    paddingHorizontal: 8, paddingTop: 6, paddingBottom: 2,
+  },
+  skip: {
+    color: theme.fgMuted, fontSize: 10, fontFamily: 'monospace',
+    paddingHorizontal: 8, paddingVertical: 2,
+  },
+  line: { flexDirection: 'row', paddingHorizontal: 4 },
+  added: { backgroundColor: theme.greenBg },
+  removed: { backgroundColor: theme.redBg },
+  gutter: {
+    color: theme.fgMuted, fontSize: 11, lineHeight: 16, fontFamily: 'monospace',
+    textAlign: 'right', marginRight: 6,
+  },
+  code: { flex: 1, color: theme.fgDim, fontSize: 11, lineHeight: 16, fontFamily: 'monospace' },
+  addedCode: { color: theme.green },
+  removedCode: { color: theme.red },
+  addedCount: { color: theme.green, fontSize: 10, fontFamily: 'monospace' },
+  removedCount: { color: theme.red, fontSize: 10, fontFamily: 'monospace' },
+  more: { paddingHorizontal: 8, paddingTop: 4 },
+  moreText: { color: theme.accent, fontSize: 11, fontFamily: 'monospace' },
+});
@@ -0,0 +1,180 @@
+import React, { useMemo } from 'react';
+import { Alert, Linking, ScrollView, StyleSheet, Text, TextStyle, View } from 'react-native';
+import { MarkedToken, Token, Tokens } from 'marked';
+import { CodeBlock } from './CodeBlock';
+import { decodeEntities, isSafeLink, lexMarkdown } from '../markdown';
+import { highlighted } from '../searchTerms';
+import { palette, theme } from '../theme';
+
+function openUrl(href: string) {
+  Linking.openURL(href).catch(e => Alert.alert('Could not open link', e instanceof Error ? e.message : String(e)));
+}
+
+function openLink(href: string) {
+  if (isSafeLink(href)) {
+    openUrl(href);
+    return;
+  }
+  Alert.alert('Open this link?', href, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Open', onPress: () => openUrl(href) },
+  ]);
+}
+
+function renderInline(tokens: Token[] | undefined, terms?: string[]): React.ReactNode {
+  return (tokens ?? []).map((token, i) => {
+    const t = token as MarkedToken;
+    switch (t.type) {
+      case 'text':
+        return t.tokens
+          ? <React.Fragment key={i}>{renderInline(t.tokens, terms)}</React.Fragment>
+          : <React.Fragment key={i}>{highlighted(decodeEntities(t.text), terms)}</React.Fragment>;
+      case 'escape': return t.text;
+      case 'strong': return <Text key={i} style={styles.strong}>{renderInline(t.tokens, terms)}</Text>;
+      case 'em': return <Text key={i} style={styles.em}>{renderInline(t.tokens, terms)}</Text>;
+      case 'del': return <Text key={i} style={styles.del}>{renderInline(t.tokens, terms)}</Text>;
+      case 'codespan': return <Text key={i} style={styles.inlineCode}>{highlighted(decodeEntities(t.text), terms)}</Text>;
+      case 'link': return <Text key={i} style={styles.link} onPress={() => openLink(t.href)}>{renderInline(t.tokens, terms)}</Text>;
+      case 'image': return <Text key={i} style={styles.link} onPress={() => openLink(t.href)}>{t.text || t.href}</Text>;
+      case 'br': return '\n';
+      case 'checkbox': return null; // drawn as the list item's marker
+      default: return t.raw;
+    }
+  });
+}
+
+/** Roughly how wide a column needs to be, from the longest cell in it. */
+function columnWidths(table: Tokens.Table): number[] {
+  return table.header.map((_, c) => {
+    const longest = Math.max(...[table.header, ...table.rows].map(row => row[c]?.text.length ?? 0));
+    return Math.min(240, Math.max(56, longest * 7.5 + 16));
+  });
+}
+
+function Table({ token, terms }: { token: Tokens.Table; terms?: string[] }) {
+  const widths = columnWidths(token);
+  return (
+    <ScrollView horizontal nestedScrollEnabled showsHorizontalScrollIndicator={false} style={styles.tableScroll}>
+      <View style={styles.table}>
+        {[token.header, ...token.rows].map((row, r) => (
+          <View key={r} style={[styles.tableRow, r === 0 && styles.tableHeader]}>
+            {row.map((cell, c) => (
+              <View key={c} style={[styles.tableCell, { width: widths[c] }]}>
+                <Text style={[styles.tableText, r === 0 && styles.strong, { textAlign: cell.align ?? 'left' }]}>
+                  {renderInline(cell.tokens, terms)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+function listMarker(list: Tokens.List, item: Tokens.ListItem, index: number): string {
+  if (item.task) return item.checked ? '☑' : '☐';
+  if (list.ordered) return `${(list.start === '' ? 1 : list.start) + index}.`;
+  return '•';
+}
+
+const HEADING_STYLES: Record<number, TextStyle> = {
+  1: { fontSize: 20, lineHeight: 28 },
+  2: { fontSize: 18, lineHeight: 26 },
+  3: { fontSize: 16, lineHeight: 24 },
+};
+
+/**
+ * One top-level block. Memoized on its source so that while a reply streams
+ * only the block still being written re-renders.
+ */
+const Block = React.memo(function Block({ token, terms }: { token: Token; terms?: string[] }) {
+  const t = token as MarkedToken;
+  switch (t.type) {
+    case 'heading':
+      return <Text style={[styles.text, styles.heading, HEADING_STYLES[t.depth]]}>{renderInline(t.tokens, terms)}</Text>;
+    case 'paragraph':
+      return <Text style={styles.text}>{renderInline(t.tokens, terms)}</Text>;
+    case 'text':
+      return <Text style={styles.text}>{t.tokens ? renderInline(t.tokens, terms) : highlighted(decodeEntities(t.text), terms)}</Text>;
+    case 'code':
+      return <CodeBlock code={t.text} lang={t.lang?.split(/\s/)[0] || undefined} terms={terms} />;
+    case 'list':
+      return (
+        <View style={styles.list}>
+          {t.items.map((item, i) => (
+            <View key={i} style={styles.listItem}>
+              <Text style={[styles.text, styles.marker, item.task && item.checked && styles.markerDone]}>{listMarker(t, item, i)}</Text>
+              <View style={styles.listBody}>
+                <Blocks tokens={item.tokens} terms={terms} />
+              </View>
+            </View>
+          ))}
+        </View>
+      );
+    case 'blockquote':
+      return (
+        <View style={styles.blockquote}>
+          <Blocks tokens={t.tokens} terms={terms} />
+        </View>
+      );
+    case 'table':
+      return <Table token={t} terms={terms} />;
+    case 'hr':
+      return <View style={styles.hr} />;
+    case 'space':
+    case 'def':
+    case 'checkbox':
+      return null;
+    default:
+      return <Text style={styles.text}>{t.raw.trim()}</Text>;
+  }
+}, (prev, next) => prev.token.raw === next.token.raw && prev.terms === next.terms);
+
+function Blocks({ tokens, terms }: { tokens: Token[]; terms?: string[] }) {
+  return (
+    <View style={styles.blocks}>
+      {tokens.map((token, i) => <Block key={i} token={token} terms={terms} />)}
+    </View>
+  );
+}
+
+/** Assistant text rendered from Markdown: headings, lists, quotes, tables, links and highlighted code. */
+export function Markdown({ text, terms }: { text: string; terms?: string[] }) {
+  const tokens = useMemo(() => lexMarkdown(text), [text]);
+  return <Blocks tokens={tokens} terms={terms} />;
+}
+
+const styles = StyleSheet.create({
+  blocks: { gap: 6 },
+  text: { color: palette.oldWhite, fontSize: 15, lineHeight: 23 },
+  heading: { color: theme.fg, fontWeight: '700' },
+  strong: { fontWeight: '700' },
+  em: { fontStyle: 'italic' },
+  del: { textDecorationLine: 'line-through' },
+  link: { color: theme.link, textDecorationLine: 'underline' },
+  inlineCode: {
+    color: theme.synOperator, fontFamily: 'monospace',
+    backgroundColor: 'rgba(196,116,110,0.12)',
+    borderRadius: 4,
+  },
+
+  list: { gap: 2 },
+  listItem: { flexDirection: 'row', gap: 6 },
+  marker: { color: theme.fgDimmer, minWidth: 14 },
+  markerDone: { color: theme.green },
+  listBody: { flex: 1 },
+
+  blockquote: {
+    borderLeftWidth: 3, borderLeftColor: theme.border,
+    paddingLeft: 10, opacity: 0.85,
+  },
+  hr: { height: 1, backgroundColor: theme.border, marginVertical: 4 },
+
+  tableScroll: { flexGrow: 0 },
+  table: { borderWidth: 1, borderColor: theme.border, borderRadius: 6, overflow: 'hidden' },
+  tableRow: { flexDirection: 'row', borderTopWidth: 1, borderTopColor: theme.border },
+  tableHeader: { borderTopWidth: 0, backgroundColor: theme.surfaceAlt },
+  tableCell: { paddingHorizontal: 8, paddingVertical: 5 },
+  tableText: { color: palette.oldWhite, fontSize: 13, lineHeight: 19 },
+});
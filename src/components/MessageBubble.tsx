@@ -1,7 +1,13 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Animated, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { ChatMessage, StoredItem } from '../types';
+import {
+  ChatMessage, CommandOutputItem, DeliveryStatus, FileChangeItem, FileChangeKind, StoredItem, StreamingItem,
+} from '../types';
 import { theme, palette } from '../theme';
+import { hasMatch, highlighted } from '../searchTerms';
+import { FileEditPreview, hasFileEditPreview } from './FileEditPreview';
+import { Markdown } from './Markdown';
+import { useRenderCount } from '../hooks/useRenderCount';
 
 const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
 
@@ -48,65 +54,6 @@ function toolMeta(name: string) {
   return TOOL_META[name] ?? { color: theme.fgDimmer, bg: `rgba(114,113,105,0.06)`, icon: '>', label: name };
 }
 
-type Segment = { type: 'text'; content: string } | { type: 'code'; content: string; lang?: string };
-
-function parseSegments(text: string): Segment[] {
-  const out: Segment[] = [];
-  const re = /```(\w*)\n?([\s\S]*?)```/g;
-  let last = 0;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(text))) {
-    if (m.index > last) out.push({ type: 'text', content: text.slice(last, m.index) });
-    out.push({ type: 'code', content: m[2].trim(), lang: m[1] || undefined });
-    last = m.index + m[0].length;
-  }
-  if (last < text.length) out.push({ type: 'text', content: text.slice(last) });
-  return out.length ? out : [{ type: 'text', content: text }];
-}
-
-function InlineText({ text, baseStyle }: { text: string; baseStyle?: object }) {
-  const parts = text.split(/(`[^`\n]+`)/g);
-  if (parts.length === 1) return <Text style={[styles.assistantText, baseStyle]}>{text}</Text>;
-  return (
-    <Text style={[styles.assistantText, baseStyle]}>
-      {parts.map((p, i) =>
-        p.startsWith('`') && p.endsWith('`') && p.length > 2
-          ? <Text key={i} style={styles.inlineCode}>{p.slice(1, -1)}</Text>
-          : p
-      )}
-    </Text>
-  );
-}
-
-function CodeBlock({ code, lang }: { code: string; lang?: string }) {
-  return (
-    <View style={styles.codeBlock}>
-      {lang ? (
-        <View style={styles.codeLangRow}>
-          <Text style={styles.codeLang}>{lang}</Text>
-        </View>
-      ) : null}
-      <Text style={styles.codeText} selectable>{code}</Text>
-    </View>
-  );
-}
-
-function TextRenderer({ text }: { text: string }) {
-  const segs = parseSegments(text);
-  if (segs.length === 1 && segs[0].type === 'text') {
-    return <InlineText text={segs[0].content} />;
-  }
-  return (
-    <View style={{ gap: 6 }}>
-      {segs.map((s, i) =>
-        s.type === 'code'
-          ? <CodeBlock key={i} code={s.content} lang={s.lang} />
-          : <InlineText key={i} text={s.content} />
-      )}
-    </View>
-  );
-}
-
 function ThinkingBubble({ thinking }: { thinking: string }) {
   const [expanded, setExpanded] = useState(false);
   return (
@@ -120,10 +67,10 @@ function ThinkingBubble({ thinking }: { thinking: string }) {
   );
 }
 
-function CompactToolCall({ item }: { item: { name: string; input: unknown } }) {
+function CompactToolCall({ item, terms }: { item: { name: string; input: Record<string, unknown> }; terms?: string[] }) {
   const [expanded, setExpanded] = useState(false);
   const meta = toolMeta(item.name);
-  const inp = item.input as Record<string, unknown>;
+  const inp = item.input;
 
   const filePath = inp.file_path ?? inp.path ?? inp.notebook_path;
   const pattern = inp.pattern ?? null;
@@ -138,7 +85,7 @@ function CompactToolCall({ item }: { item: { name: string; input: unknown } }) {
       <Text style={styles.compactIcon}>{meta.icon}</Text>
       <Text style={styles.compactName}>{item.name}</Text>
       {preview ? (
-        <Text style={styles.compactPath} numberOfLines={1}>{String(preview)}</Text>
+        <Text style={styles.compactPath} numberOfLines={1}>{highlighted(String(preview), terms)}</Text>
       ) : null}
       {expanded && (
         <Text style={styles.compactRaw} selectable>
@@ -149,12 +96,12 @@ function CompactToolCall({ item }: { item: { name: string; input: unknown } }) {
   );
 }
 
-function ToolCallBubble({ item }: { item: { name: string; input: unknown } }) {
-  if (QUIET_TOOLS.has(item.name)) return <CompactToolCall item={item} />;
+function ToolCallBubble({ item, terms }: { item: { name: string; input: Record<string, unknown> }; terms?: string[] }) {
+  if (QUIET_TOOLS.has(item.name)) return <CompactToolCall item={item} terms={terms} />;
 
   const [expanded, setExpanded] = useState(false);
   const meta = toolMeta(item.name);
-  const inp = item.input as Record<string, unknown>;
+  const inp = item.input;
 
   const filePath = inp.file_path ?? inp.path ?? inp.notebook_path;
   const command = item.name === 'Bash' ? inp.command : null;
@@ -162,17 +109,20 @@ function ToolCallBubble({ item }: { item: { name: string; input: unknown } }) {
   const url = inp.url ?? null;
   const previewValue = command ?? filePath ?? pattern ?? url;
   const isCmd = !!command;
+  // File edits show their diff in place of the raw input, so there's nothing to expand
+  const isFileEdit = hasFileEditPreview(item.name, item.input);
 
   return (
     <TouchableOpacity
       style={[styles.toolCall, { backgroundColor: meta.bg, borderLeftColor: meta.color }]}
       onPress={() => setExpanded(e => !e)}
+      disabled={isFileEdit}
       activeOpacity={0.75}
     >
       <View style={styles.toolHeader}>
         <Text style={[styles.toolIcon, { color: meta.color }]}>{meta.icon}</Text>
         <Text style={styles.toolName}>{item.name}</Text>
-        <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>
+        {!isFileEdit && <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>}
       </View>
 
       {previewValue && (
@@ -180,17 +130,19 @@ function ToolCallBubble({ item }: { item: { name: string; input: unknown } }) {
           <View style={styles.terminal}>
             <Text style={styles.terminalPrompt}>$</Text>
             <Text style={styles.terminalCmd} numberOfLines={expanded ? undefined : 3}>
-              {String(previewValue)}
+              {highlighted(String(previewValue), terms)}
             </Text>
           </View>
         ) : (
           <Text style={styles.toolFilePath} numberOfLines={1}>
-            {String(previewValue)}
+            {highlighted(String(previewValue), terms)}
           </Text>
         )
       )}
 
-      {expanded && (
+      {isFileEdit ? (
+        <FileEditPreview name={item.name} input={item.input} />
+      ) : expanded && (
         <Text style={styles.toolRawInput} selectable>
           {JSON.stringify(item.input, null, 2)}
         </Text>
@@ -199,8 +151,8 @@ function ToolCallBubble({ item }: { item: { name: string; input: unknown } }) {
   );
 }
 
-function ToolResultBubble({ item }: { item: { content: string; is_error?: boolean } }) {
-  const [expanded, setExpanded] = useState(false);
+function ToolResultBubble({ item, terms }: { item: { content: string; is_error?: boolean }; terms?: string[] }) {
+  const [expanded, setExpanded] = useState(() => hasMatch(item.content, terms));
   const isBlocked = item.is_error && (
     item.content.includes('was blocked') || item.content.includes('requested permissions')
   );
@@ -217,7 +169,7 @@ function ToolResultBubble({ item }: { item: { content: string; is_error?: boolea
           <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>
         </View>
         <Text style={styles.toolResultContent} numberOfLines={expanded ? undefined : 2} selectable={expanded}>
-          {item.content}
+          {highlighted(item.content, terms)}
         </Text>
       </TouchableOpacity>
     );
@@ -235,7 +187,7 @@ function ToolResultBubble({ item }: { item: { content: string; is_error?: boolea
           <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>
         </View>
         <Text style={styles.toolResultContent} numberOfLines={expanded ? undefined : 2} selectable={expanded}>
-          {item.content}
+          {highlighted(item.content, terms)}
         </Text>
       </TouchableOpacity>
     );
@@ -249,41 +201,180 @@ function ToolResultBubble({ item }: { item: { content: string; is_error?: boolea
     >
       <Text style={styles.compactResultCheck}>✓</Text>
       <Text style={styles.compactResultText} numberOfLines={expanded ? undefined : 1} selectable={expanded}>
-        {item.content}
+        {highlighted(item.content, terms)}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const FILE_CHANGE_META: Record<FileChangeKind, { icon: string; color: string; label: string }> = {
+  create: { icon: '+', color: theme.green,       label: 'created' },
+  modify: { icon: '~', color: theme.synFunction, label: 'modified' },
+  delete: { icon: '−', color: theme.red,         label: 'deleted' },
+  rename: { icon: '→', color: theme.orange,      label: 'renamed' },
+};
+
+function FileChangeBubble({ item, terms }: { item: FileChangeItem; terms?: string[] }) {
+  const meta = FILE_CHANGE_META[item.kind];
+  const hasCounts = item.lines_added !== undefined || item.lines_removed !== undefined;
+  return (
+    <View style={[styles.fileChange, { borderLeftColor: meta.color }]}>
+      <Text style={[styles.fileChangeIcon, { color: meta.color }]}>{meta.icon}</Text>
+      <View style={styles.fileChangeBody}>
+        <Text style={styles.fileChangePath} numberOfLines={2} selectable>
+          {highlighted(item.kind === 'rename' && item.old_path ? `${item.old_path} → ${item.path}` : item.path, terms)}
+        </Text>
+        <View style={styles.fileChangeMeta}>
+          <Text style={[styles.fileChangeKind, { color: meta.color }]}>{meta.label}</Text>
+          {hasCounts && (
+            <>
+              <Text style={styles.linesAdded}>+{item.lines_added ?? 0}</Text>
+              <Text style={styles.linesRemoved}>−{item.lines_removed ?? 0}</Text>
+            </>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function CommandOutputBubble({ item, terms }: { item: CommandOutputItem; terms?: string[] }) {
+  const [expanded, setExpanded] = useState(() => hasMatch(`${item.stdout}\n${item.stderr}`, terms));
+  const failed = item.exit_code !== 0;
+  const exitLabel = item.exit_code === undefined ? 'killed' : `exit ${item.exit_code}`;
+  const stdout = item.stdout.replace(/\n$/, '');
+  const stderr = item.stderr.replace(/\n$/, '');
+  return (
+    <TouchableOpacity style={styles.commandOutput} onPress={() => setExpanded(e => !e)} activeOpacity={0.75}>
+      <View style={styles.commandHeader}>
+        <Text style={styles.terminalPrompt}>$</Text>
+        <Text style={styles.commandText} numberOfLines={expanded ? undefined : 1}>{highlighted(item.command ?? 'command', terms)}</Text>
+        <Text style={[styles.exitBadge, failed ? styles.exitBadgeFailed : styles.exitBadgeOk]}>{exitLabel}</Text>
+      </View>
+      {stdout ? (
+        <Text style={styles.stdoutText} selectable={expanded}>{highlighted(expanded ? stdout : tail(stdout, 6), terms)}</Text>
+      ) : null}
+      {stderr ? (
+        <Text style={styles.stderrText} selectable={expanded}>{highlighted(expanded ? stderr : tail(stderr, 4), terms)}</Text>
+      ) : null}
+      {!stdout && !stderr && <Text style={styles.noOutput}>no output</Text>}
+    </TouchableOpacity>
+  );
+}
+
+/** Last few lines of text that is still growing, so live output stays readable. */
+function tail(text: string, maxLines: number): string {
+  const lines = text.split('\n');
+  return lines.length <= maxLines ? text : `…\n${lines.slice(-maxLines).join('\n')}`;
+}
+
+function LiveThinking({ text }: { text: string }) {
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <TouchableOpacity style={styles.thinking} onPress={() => setExpanded(e => !e)} activeOpacity={0.7}>
+      <View style={styles.thinkingHeader}>
+        <NvimSpinner color={theme.fgDimmer} label="thinking" />
+        <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>
+      </View>
+      <Text style={styles.thinkingText} numberOfLines={expanded ? undefined : 3}>
+        {expanded ? text : tail(text, 3)}
       </Text>
     </TouchableOpacity>
   );
 }
 
-function ItemRenderer({ storedItem }: { storedItem: StoredItem }) {
+function LiveToolInput({ name, text }: { name?: string; text: string }) {
+  const meta = toolMeta(name ?? 'tool');
+  return (
+    <View style={[styles.toolCall, { backgroundColor: meta.bg, borderLeftColor: meta.color }]}>
+      <View style={styles.toolHeader}>
+        <Text style={[styles.toolIcon, { color: meta.color }]}>{meta.icon}</Text>
+        <Text style={styles.toolName}>{name ?? 'tool'}</Text>
+        <NvimSpinner color={meta.color} label={meta.label.toLowerCase()} />
+      </View>
+      {text ? <Text style={styles.toolRawInput}>{tail(text, 8)}</Text> : null}
+    </View>
+  );
+}
+
+function LiveToolOutput({ name, text }: { name?: string; text: string }) {
+  return (
+    <View style={styles.liveOutput}>
+      <View style={styles.toolResultHeader}>
+        <Text style={[styles.toolResultLabel, { color: theme.fgDimmer }]}>{name ? `${name} output` : 'output'}</Text>
+        <NvimSpinner color={theme.fgDimmer} />
+      </View>
+      <Text style={styles.liveOutputText}>{tail(text, 12)}</Text>
+    </View>
+  );
+}
+
+function StreamingItemRenderer({ item }: { item: StreamingItem }) {
+  switch (item.type) {
+    case 'text': return <Markdown text={item.text} />;
+    case 'thinking': return <LiveThinking text={item.text} />;
+    case 'tool_input': return <LiveToolInput name={item.name} text={item.text} />;
+    case 'tool_output': return <LiveToolOutput name={item.name} text={item.text} />;
+  }
+}
+
+function ItemRenderer({ storedItem, terms }: { storedItem: StoredItem; terms?: string[] }) {
   const item = storedItem.item;
-  if (item.type === 'text') return <TextRenderer text={item.text} />;
+  if (item.type === 'text') return <Markdown text={item.text} terms={terms} />;
   if (item.type === 'thinking') return <ThinkingBubble thinking={item.thinking} />;
-  if (item.type === 'tool_call') return <ToolCallBubble item={item} />;
-  if (item.type === 'tool_result') return <ToolResultBubble item={item} />;
+  if (item.type === 'tool_call') return <ToolCallBubble item={item} terms={terms} />;
+  if (item.type === 'tool_result') return <ToolResultBubble item={item} terms={terms} />;
+  if (item.type === 'file_change') return <FileChangeBubble item={item} terms={terms} />;
+  if (item.type === 'command_output') return <CommandOutputBubble item={item} terms={terms} />;
   return null;
 }
 
-export function MessageBubble({ message }: { message: ChatMessage }) {
+const DELIVERY_LABELS: Record<DeliveryStatus, string> = {
+  pending: '◷ queued',
+  sending: '↑ sending',
+  failed: '✕ not sent — tap for options',
+  sent: '✓ sent',
+};
+
+/**
+ * Memoized so a streaming update only re-renders the message it changed.
+ * `highlight` marks the message a search result led to and the terms to highlight in it.
+ */
+export const MessageBubble = React.memo(function MessageBubble({
+  message, onPress, onLongPress, highlight,
+}: { message: ChatMessage; onPress?: () => void; onLongPress?: () => void; highlight?: string[] }) {
+  useRenderCount(message.isStreaming ? 'MessageBubble (streaming)' : 'MessageBubble');
   if (message.role === 'user') {
+    const queued = message.delivery === 'pending' || message.delivery === 'failed';
     return (
       <View style={styles.userRow}>
-        <View style={styles.userBubble}>
-          <Text style={styles.userText}>{message.content}</Text>
-        </View>
+        <TouchableOpacity
+          style={[styles.userBubble, queued && styles.userBubbleQueued, highlight && styles.bubbleFocused]}
+          onPress={onPress}
+          onLongPress={onLongPress}
+          disabled={!onPress && !onLongPress}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.userText}>{highlighted(message.content, highlight)}</Text>
+        </TouchableOpacity>
+        {message.delivery && (
+          <Text style={[styles.deliveryText, message.delivery === 'failed' && styles.deliveryFailed]}>
+            {DELIVERY_LABELS[message.delivery]}
+          </Text>
+        )}
       </View>
     );
   }
 
-  const hasContent = (message.streamingText && message.streamingText.length > 0)
-    || (message.items && message.items.length > 0);
+  const streaming = message.isStreaming ? message.streamingItems ?? [] : [];
+  const hasContent = streaming.length > 0 || (message.items && message.items.length > 0);
 
   return (
     <View style={styles.assistantRow}>
-      <View style={styles.assistantBubble}>
-        {message.isStreaming && message.streamingText
-          ? <InlineText text={message.streamingText} />
-          : (message.items ?? []).map(item => <ItemRenderer key={item.id} storedItem={item} />)
+      <View style={[styles.assistantBubble, highlight && styles.bubbleFocused]}>
+        {streaming.length > 0
+          ? streaming.map(item => <StreamingItemRenderer key={item.key} item={item} />)
+          : (message.items ?? []).map(item => <ItemRenderer key={item.id} storedItem={item} terms={highlight} />)
         }
         {message.isStreaming && !hasContent && (
           <NvimSpinner label="thinking" />
@@ -294,7 +385,7 @@ export function MessageBubble({ message }: { message: ChatMessage }) {
       </View>
     </View>
   );
-}
+});
 
 const styles = StyleSheet.create({
   spinnerRow: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 2 },
@@ -308,7 +399,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16, paddingVertical: 10,
     maxWidth: '80%',
   },
+  userBubbleQueued: { opacity: 0.6 },
   userText: { color: '#fff', fontSize: 15, lineHeight: 22 },
+  deliveryText: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace', marginTop: 3 },
+  deliveryFailed: { color: theme.red },
 
   assistantRow: { alignItems: 'flex-start', marginVertical: 4, marginHorizontal: 16 },
   assistantBubble: {
@@ -319,30 +413,7 @@ const styles = StyleSheet.create({
     borderWidth: 1, borderColor: theme.border,
     gap: 6,
   },
-  assistantText: { color: palette.oldWhite, fontSize: 15, lineHeight: 23 },
-  inlineCode: {
-    color: theme.synOperator, fontFamily: 'monospace',
-    backgroundColor: 'rgba(196,116,110,0.12)',
-    borderRadius: 4,
-  },
-
-  codeBlock: {
-    backgroundColor: theme.bgDark,
-    borderRadius: 8,
-    borderWidth: 1, borderColor: theme.border,
-    overflow: 'hidden',
-  },
-  codeLangRow: {
-    backgroundColor: theme.surface,
-    borderBottomWidth: 1, borderBottomColor: theme.border,
-    paddingHorizontal: 10, paddingVertical: 4,
-  },
-  codeLang: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
-  codeText: {
-    color: theme.fg, fontFamily: 'monospace',
-    fontSize: 12, lineHeight: 18,
-    padding: 10,
-  },
+  bubbleFocused: { borderWidth: 1, borderColor: theme.yellow },
 
   thinking: {
     backgroundColor: `rgba(114,113,105,0.06)`,
@@ -412,6 +483,46 @@ const styles = StyleSheet.create({
     color: theme.fgDimmer, fontFamily: 'monospace', fontSize: 10, lineHeight: 15,
   },
 
+  fileChange: {
+    flexDirection: 'row', alignItems: 'flex-start', gap: 8,
+    backgroundColor: `rgba(114,113,105,0.05)`,
+    borderRadius: 6, borderLeftWidth: 2,
+    paddingHorizontal: 8, paddingVertical: 6,
+  },
+  fileChangeIcon: { fontFamily: 'monospace', fontSize: 13, fontWeight: '700', lineHeight: 17 },
+  fileChangeBody: { flex: 1 },
+  fileChangePath: { color: theme.fg, fontFamily: 'monospace', fontSize: 11, lineHeight: 17 },
+  fileChangeMeta: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 2 },
+  fileChangeKind: { fontSize: 10, fontWeight: '700', fontFamily: 'monospace' },
+  linesAdded: { color: theme.green, fontSize: 10, fontFamily: 'monospace' },
+  linesRemoved: { color: theme.red, fontSize: 10, fontFamily: 'monospace' },
+
+  commandOutput: {
+    backgroundColor: theme.bgDark,
+    borderRadius: 6, paddingHorizontal: 10, paddingVertical: 6, gap: 4,
+  },
+  commandHeader: { flexDirection: 'row', alignItems: 'flex-start', gap: 6 },
+  commandText: {
+    color: palette.oldWhite, fontFamily: 'monospace', fontSize: 12, lineHeight: 18, flex: 1,
+  },
+  exitBadge: {
+    fontFamily: 'monospace', fontSize: 10, fontWeight: '700', lineHeight: 18,
+    paddingHorizontal: 6, borderRadius: 4, overflow: 'hidden',
+  },
+  exitBadgeOk: { color: theme.green, backgroundColor: theme.greenBg },
+  exitBadgeFailed: { color: theme.red, backgroundColor: theme.redBg },
+  stdoutText: { color: theme.fgDim, fontFamily: 'monospace', fontSize: 10, lineHeight: 15 },
+  stderrText: { color: theme.red, fontFamily: 'monospace', fontSize: 10, lineHeight: 15 },
+  noOutput: { color: theme.fgDimmer, fontFamily: 'monospace', fontSize: 10, fontStyle: 'italic' },
+
+  liveOutput: {
+    backgroundColor: theme.bgDark,
+    borderRadius: 6, paddingHorizontal: 10, paddingVertical: 6,
+  },
+  liveOutputText: {
+    color: palette.oldWhite, fontFamily: 'monospace', fontSize: 10, lineHeight: 15,
+  },
+
   compactResult: {
     flexDirection: 'row', alignItems: 'flex-start', gap: 4, paddingVertical: 1,
   },
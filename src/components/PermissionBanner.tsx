@@ -1,11 +1,13 @@
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { exactRule } from '../permissionRules';
 import { PermissionDenial, PermissionMode } from '../types';
 import { theme } from '../theme';
 
 interface Props {
   denials?: PermissionDenial[];
   onApprove: (mode: PermissionMode) => void;
+  onAllowExact?: (denial: PermissionDenial, rule: string) => void; // add a session rule for just this call, then retry
   onDismiss: () => void;
 }
 
@@ -53,8 +55,8 @@ function truncate(s: string, n: number): string {
   return s.length > n ? s.slice(0, n - 3) + '...' : s;
 }
 
-export function PermissionBanner({ denials, onApprove, onDismiss }: Props) {
-  const items = (denials ?? []).map(summarizeDenial);
+export function PermissionBanner({ denials, onApprove, onAllowExact, onDismiss }: Props) {
+  const items = (denials ?? []).map(d => ({ ...summarizeDenial(d), denial: d, rule: exactRule(d) }));
 
   return (
     <View style={styles.banner}>
@@ -79,6 +81,11 @@ export function PermissionBanner({ denials, onApprove, onDismiss }: Props) {
                 <Text style={styles.toolName}>{it.label}</Text>
                 {it.detail ? <Text style={styles.toolDetail} numberOfLines={2}>{it.detail}</Text> : null}
               </View>
+              {onAllowExact && it.rule && (
+                <TouchableOpacity style={styles.exactBtn} onPress={() => onAllowExact(it.denial, it.rule!)}>
+                  <Text style={styles.exactText}>allow exactly</Text>
+                </TouchableOpacity>
+              )}
             </View>
           ))}
         </View>
@@ -133,6 +140,12 @@ const styles = StyleSheet.create({
     borderColor: theme.border,
     padding: 8,
   },
+  exactBtn: {
+    backgroundColor: theme.greenBg, borderRadius: 6,
+    borderWidth: 1, borderColor: theme.green,
+    paddingHorizontal: 8, paddingVertical: 5,
+  },
+  exactText: { color: theme.green, fontSize: 11, fontWeight: '600' },
   toolBadge: {
     width: 28,
     height: 28,
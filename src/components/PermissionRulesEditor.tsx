@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { ruleError } from '../permissionRules';
+import { PermissionRule, RuleEffect } from '../types';
+import { theme } from '../theme';
+
+export interface RuleDraft {
+  effect: RuleEffect;
+  rule: string;
+  scope: PermissionRule['scope'];
+}
+
+interface Props {
+  rules: PermissionRule[]; // the session's own rules and its project's
+  cwd: string;
+  onAdd?: (draft: RuleDraft) => Promise<void>; // omitted when the server can't take rules
+  onRemove?: (rule: PermissionRule) => Promise<void>;
+}
+
+/** List, add and remove the allow/deny rules that apply to a session. */
+export function PermissionRulesEditor({ rules, cwd, onAdd, onRemove }: Props) {
+  const [effect, setEffect] = useState<RuleEffect>('allow');
+  const [scope, setScope] = useState<PermissionRule['scope']>('session');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    if (!onAdd) return;
+    const problem = ruleError(text);
+    setError(problem);
+    if (problem) return;
+    setSaving(true);
+    try {
+      await onAdd({ effect, rule: text.trim(), scope });
+      setText('');
+    } catch (e) {
+      Alert.alert('Could not apply rule', e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = (rule: PermissionRule) => {
+    onRemove?.(rule).catch(e => Alert.alert('Could not remove rule', e instanceof Error ? e.message : String(e)));
+  };
+
+  return (
+    <View>
+      <Text style={styles.sectionTitle}>Rules</Text>
+      {rules.length === 0 && <Text style={styles.hint}>No rules; the permission mode decides.</Text>}
+      {rules.map(r => (
+        <View key={r.id} style={styles.ruleRow}>
+          <Text style={[styles.effect, r.effect === 'allow' ? styles.effectAllow : styles.effectDeny]}>{r.effect}</Text>
+          <Text style={styles.ruleText} numberOfLines={2}>{r.rule}</Text>
+          <Text style={styles.scope}>{r.scope === 'project' ? 'project' : 'session'}</Text>
+          {onRemove && (
+            <TouchableOpacity onPress={() => handleRemove(r)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Text style={styles.removeText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {onAdd ? (
+        <>
+          <View style={styles.chips}>
+            {(['allow', 'deny'] as const).map(e => (
+              <TouchableOpacity key={e} style={[styles.chip, effect === e && styles.chipSelected]} onPress={() => setEffect(e)}>
+                <Text style={[styles.chipText, effect === e && styles.chipTextSelected]}>{e}</Text>
+              </TouchableOpacity>
+            ))}
+            <View style={styles.chipGap} />
+            {(['session', 'project'] as const).map(s => (
+              <TouchableOpacity key={s} style={[styles.chip, scope === s && styles.chipSelected]} onPress={() => setScope(s)}>
+                <Text style={[styles.chipText, scope === s && styles.chipTextSelected]}>{s === 'session' ? 'this session' : 'this project'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.input}
+              value={text}
+              onChangeText={t => { setText(t); setError(null); }}
+              placeholder="Bash(npm test:*)"
+              placeholderTextColor={theme.fgMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleAdd}
+            />
+            <TouchableOpacity style={[styles.addBtn, saving && styles.addBtnDisabled]} onPress={handleAdd} disabled={saving}>
+              <Text style={styles.addText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          {error ? (
+            <Text style={styles.error}>{error}</Text>
+          ) : (
+            <Text style={styles.hint} numberOfLines={2}>
+              {scope === 'project' ? `Applies to every session in ${cwd}` : 'Applies to this session only'}. Deny wins over allow.
+            </Text>
+          )}
+        </>
+      ) : (
+        <Text style={styles.hint}>This server doesn't support permission rules.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    color: theme.fgDim, fontSize: 11, fontWeight: '700', textTransform: 'uppercase',
+    letterSpacing: 0.5, marginTop: 14, marginBottom: 6,
+  },
+  hint: { color: theme.fgDimmer, fontSize: 11, marginTop: 4 },
+  error: { color: theme.red, fontSize: 11, marginTop: 4 },
+  ruleRow: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 5 },
+  effect: { fontSize: 10, fontWeight: '700', fontFamily: 'monospace', textTransform: 'uppercase', width: 40 },
+  effectAllow: { color: theme.green },
+  effectDeny: { color: theme.red },
+  ruleText: { flex: 1, color: theme.fg, fontSize: 12, fontFamily: 'monospace' },
+  scope: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+  removeText: { color: theme.red, fontSize: 11, fontWeight: '700' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 },
+  chipGap: { width: 6 },
+  chip: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  chipSelected: { backgroundColor: theme.greenBg, borderColor: theme.green },
+  chipText: { color: theme.fgDim, fontSize: 11, fontWeight: '600' },
+  chipTextSelected: { color: theme.green },
+  addRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 8 },
+  input: {
+    flex: 1,
+    backgroundColor: theme.bg, borderColor: theme.border, borderWidth: 1,
+    borderRadius: 8, paddingHorizontal: 10, paddingVertical: 8,
+    color: theme.fg, fontSize: 13, fontFamily: 'monospace',
+  },
+  addBtn: { backgroundColor: theme.green, borderRadius: 8, paddingHorizontal: 14, paddingVertical: 9 },
+  addBtnDisabled: { backgroundColor: theme.surfaceAlt },
+  addText: { color: '#fff', fontSize: 13, fontWeight: '700' },
+});
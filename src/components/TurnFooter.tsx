@@ -0,0 +1,82 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Turn } from '../types';
+import { theme } from '../theme';
+
+interface Props {
+  turn: Turn;
+  onRetry?: (turn: Turn) => void; // omitted when retrying isn't possible right now
+}
+
+/** 850 → "850ms", 12_300 → "12.3s", 95_000 → "1m 35s". */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}m ${s % 60}s`;
+}
+
+function shortModel(model: string): string {
+  return model.replace('claude-', '').replace(/-(\d+)-(\d+)$/, ' $1.$2');
+}
+
+/**
+ * Outcome line shown under a finished turn: duration and model when it
+ * completed, and an error card with a retry button when it failed or was cut short.
+ * Memoized so streaming into a later message doesn't re-render it.
+ */
+export const TurnFooter = React.memo(function TurnFooter({ turn, onRetry }: Props) {
+  if (turn.status === 'active') return null;
+  const duration = turn.started_at != null && turn.ended_at != null
+    ? formatDuration(Math.max(0, turn.ended_at - turn.started_at))
+    : undefined;
+  const meta = [duration, turn.model && shortModel(turn.model)].filter(Boolean).join(' · ');
+
+  if (turn.status === 'completed') {
+    if (!duration) return null;
+    return <Text style={styles.footer}>✓ {meta}</Text>;
+  }
+
+  const failed = turn.status === 'error';
+  return (
+    <View style={[styles.card, failed ? styles.cardError : styles.cardInterrupted]}>
+      <View style={styles.cardBody}>
+        <Text style={[styles.cardTitle, { color: failed ? theme.red : theme.yellow }]}>
+          {failed ? '✕ turn failed' : '■ interrupted'}
+          {duration ? ` after ${duration}` : ''}
+        </Text>
+        {!!turn.error && <Text style={styles.cardMessage} selectable>{turn.error}</Text>}
+        {!!turn.model && <Text style={styles.cardMeta}>{shortModel(turn.model)}</Text>}
+      </View>
+      {onRetry && (
+        <TouchableOpacity style={styles.retryBtn} onPress={() => onRetry(turn)}>
+          <Text style={styles.retryText}>↻ retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  footer: {
+    color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace',
+    marginHorizontal: 16, marginTop: 2, marginBottom: 10,
+  },
+  card: {
+    flexDirection: 'row', alignItems: 'center', gap: 10,
+    marginHorizontal: 16, marginTop: 4, marginBottom: 12,
+    padding: 12, borderRadius: 10, borderWidth: 1,
+  },
+  cardError: { backgroundColor: theme.redBg, borderColor: theme.red },
+  cardInterrupted: { backgroundColor: theme.yellowBg, borderColor: theme.yellow },
+  cardBody: { flex: 1, gap: 4 },
+  cardTitle: { fontSize: 12, fontWeight: '700', fontFamily: 'monospace' },
+  cardMessage: { color: theme.fg, fontSize: 12, fontFamily: 'monospace' },
+  cardMeta: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+  retryBtn: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 6,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  retryText: { color: theme.accent, fontSize: 12, fontWeight: '600', fontFamily: 'monospace' },
+});
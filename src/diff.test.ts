@@ -0,0 +1,82 @@
+import { DiffLine, diffHunks, diffLines, fileEdits } from './diff';
+
+const text = (lines: string[]) => `${lines.join('\n')}\n`;
+const kinds = (lines: DiffLine[]) => lines.map(l => `${l.kind === 'add' ? '+' : l.kind === 'remove' ? '-' : ' '}${l.text}`);
+
+describe('diffLines', () => {
+  it('marks every line unchanged when the texts match', () => {
+    expect(kinds(diffLines('a\nb\n', 'a\nb\n'))).toEqual([' a', ' b']);
+  });
+
+  it('treats an empty side as all added or all removed', () => {
+    expect(kinds(diffLines('', 'a\nb'))).toEqual(['+a', '+b']);
+    expect(kinds(diffLines('a\nb', ''))).toEqual(['-a', '-b']);
+  });
+
+  it('ignores a trailing newline difference', () => {
+    expect(kinds(diffLines('a\nb', 'a\nb\n'))).toEqual([' a', ' b']);
+  });
+
+  it('keeps the common lines around a change', () => {
+    expect(kinds(diffLines(text(['a', 'b', 'c', 'd']), text(['a', 'x', 'c', 'd', 'e'])))).toEqual([
+      ' a', '-b', '+x', ' c', ' d', '+e',
+    ]);
+  });
+
+  it('puts removals before the additions that replace them', () => {
+    expect(kinds(diffLines(text(['keep', 'old 1', 'old 2', 'end']), text(['keep', 'new 1', 'new 2', 'end'])))).toEqual([
+      ' keep', '-old 1', '-old 2', '+new 1', '+new 2', ' end',
+    ]);
+  });
+
+  it('shows a huge rewrite as replaced instead of aligning it', () => {
+    const before = Array.from({ length: 1200 }, (_, i) => `old ${i}`);
+    const after = Array.from({ length: 1200 }, (_, i) => `new ${i}`);
+    const lines = diffLines(text(['same', ...before]), text(['same', ...after]));
+    expect(lines).toHaveLength(2401);
+    expect(lines[0]).toEqual({ kind: 'context', text: 'same' });
+    expect(lines.slice(1, 1201).every(l => l.kind === 'remove')).toBe(true);
+    expect(lines.slice(1201).every(l => l.kind === 'add')).toBe(true);
+  });
+});
+
+describe('diffHunks', () => {
+  const file = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+  it('keeps the given number of context lines and counts the ones hidden before each hunk', () => {
+    const changed = file.map(l => l === 'line 10' ? 'line ten' : l);
+    const hunks = diffHunks(diffLines(text(file), text(changed)), 2);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0].skipped).toBe(7);
+    expect(kinds(hunks[0].lines)).toEqual([' line 8', ' line 9', '-line 10', '+line ten', ' line 11', ' line 12']);
+  });
+
+  it('merges changes whose context overlaps and splits distant ones', () => {
+    const near = file.map(l => l === 'line 5' || l === 'line 8' ? `${l}!` : l);
+    expect(diffHunks(diffLines(text(file), text(near)), 2)).toHaveLength(1);
+    const far = file.map(l => l === 'line 2' || l === 'line 18' ? `${l}!` : l);
+    const hunks = diffHunks(diffLines(text(file), text(far)), 2);
+    expect(hunks.map(h => h.skipped)).toEqual([0, 11]);
+  });
+
+  it('has no hunks when nothing changed', () => {
+    expect(diffHunks(diffLines(text(file), text(file)))).toEqual([]);
+  });
+});
+
+describe('fileEdits', () => {
+  it('reads a single Edit and the edits of a MultiEdit', () => {
+    expect(fileEdits('Edit', { file_path: 'a.ts', old_string: 'a', new_string: 'b' })).toEqual([
+      { file_path: 'a.ts', old_string: 'a', new_string: 'b' },
+    ]);
+    const edits = [{ old_string: 'a', new_string: 'b' }, { old_string: 'c', new_string: 'd', replace_all: true }];
+    expect(fileEdits('MultiEdit', { file_path: 'a.ts', edits })).toEqual(edits);
+  });
+
+  it('returns null for other tools and malformed input', () => {
+    expect(fileEdits('Write', { file_path: 'a.ts', content: 'x' })).toBeNull();
+    expect(fileEdits('Edit', { old_string: 'a' })).toBeNull();
+    expect(fileEdits('MultiEdit', { edits: [] })).toBeNull();
+    expect(fileEdits('MultiEdit', { edits: [{ old_string: 'a', new_string: 1 }] })).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+export type DiffLineKind = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+}
+
+/** A run of changed lines with the unchanged lines around them. `skipped` counts the unchanged lines hidden before it. */
+export interface DiffHunk {
+  skipped: number;
+  lines: DiffLine[];
+}
+
+export interface FileEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+/** Past this many cells the LCS table costs more than it's worth; the lines are shown as replaced instead. */
+const MAX_LCS_CELLS = 1_000_000;
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+/** Every line of both texts in order, marked unchanged, removed or added. */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix are cheap to strip and usually most of an edit
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ kind: 'context', text }));
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ kind: 'context', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ kind: 'remove' as const, text })),
+      ...midB.map(text => ({ kind: 'add' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] is the longest common subsequence of midA[i..] and midB[j..]
+  const n = midA.length;
+  const m = midB.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      middle.push({ kind: 'context', text: midA[i] });
+      i++; j++;
+    } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      middle.push({ kind: 'add', text: midB[j++] });
+    } else {
+      middle.push({ kind: 'remove', text: midA[i++] });
+    }
+  }
+  // Removals read better before the additions that replace them
+  for (let k = 0; k < middle.length; k++) {
+    if (middle[k].kind !== 'add') continue;
+    let end = k;
+    while (end < middle.length && middle[end].kind !== 'context') end++;
+    const run = middle.slice(k, end);
+    middle.splice(k, run.length, ...run.filter(l => l.kind === 'remove'), ...run.filter(l => l.kind === 'add'));
+    k = end - 1;
+  }
+  return [...head, ...middle, ...tail];
+}
+
+/** Group a diff into hunks, keeping `context` unchanged lines either side of each change. */
+export function diffHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.kind === 'context') return;
+    for (let k = Math.max(0, i - context); k <= Math.min(lines.length - 1, i + context); k++) keep[k] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  let skipped = 0;
+  let current: DiffHunk | null = null;
+  lines.forEach((line, i) => {
+    if (!keep[i]) {
+      skipped++;
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { skipped, lines: [] };
+      hunks.push(current);
+      skipped = 0;
+    }
+    current.lines.push(line);
+  });
+  return hunks;
+}
+
+/** The edits an Edit or MultiEdit call makes, or null when the input isn't shaped like one. */
+export function fileEdits(name: string, input: unknown): FileEdit[] | null {
+  const record = input as Record<string, unknown> | undefined;
+  const edits = name === 'Edit' ? [record] : name === 'MultiEdit' ? record?.edits : null;
+  if (!Array.isArray(edits) || edits.length === 0) return null;
+  const valid = edits.every(e => typeof e?.old_string === 'string' && typeof e?.new_string === 'string');
+  return valid ? edits as FileEdit[] : null;
+}
@@ -0,0 +1,53 @@
+import { Token, highlightLines } from './highlight';
+
+/** The tokens of one line as `kind:text`, skipping plain whitespace. */
+const line = (tokens: Token[]) => tokens.filter(t => t.kind !== 'plain' || t.text.trim()).map(t => `${t.kind}:${t.text.trim()}`);
+
+describe('highlightLines', () => {
+  it('colors keywords, strings, numbers, calls and types in TypeScript', () => {
+    const [tokens] = highlightLines('const total: number = sum("a", 42);', 'ts');
+    expect(line(tokens)).toEqual([
+      'keyword:const', 'plain:total:', 'type:number', 'operator:=', 'function:sum', 'plain:(', 'string:"a"', 'plain:,',
+      'number:42', 'plain:);',
+    ]);
+  });
+
+  it('matches language names case-insensitively and by alias', () => {
+    expect(highlightLines('def f(): pass', 'Python')[0][0]).toEqual({ kind: 'keyword', text: 'def' });
+    expect(highlightLines('fn main() {}', 'rs')[0][0]).toEqual({ kind: 'keyword', text: 'fn' });
+  });
+
+  it('splits tokens that span lines, such as block comments, across the lines', () => {
+    const lines = highlightLines('/* one\ntwo */ let x', 'js');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual([{ kind: 'comment', text: '/* one' }]);
+    expect(line(lines[1])).toEqual(['comment:two */', 'keyword:let', 'plain:x']);
+  });
+
+  it('runs an unterminated block comment to the end of the code, not the end of the line', () => {
+    const lines = highlightLines('a /* open\nstill comment', 'ts');
+    expect(lines[1]).toEqual([{ kind: 'comment', text: 'still comment' }]);
+  });
+
+  it('keeps one empty line per blank line', () => {
+    expect(highlightLines('a\n\nb', 'js')).toEqual([[{ kind: 'plain', text: 'a' }], [], [{ kind: 'plain', text: 'b' }]]);
+  });
+
+  it('marks diff lines as added, removed or meta', () => {
+    const lines = highlightLines('@@ -1 +1 @@\n-old\n+new\n ctx', 'diff');
+    expect(lines.map(l => l[0].kind)).toEqual(['meta', 'removed', 'added', 'plain']);
+  });
+
+  it('reads SQL keywords in any case', () => {
+    expect(line(highlightLines('select * from t', 'sql')[0])).toEqual(['keyword:select', 'operator:*', 'keyword:from', 'plain:t']);
+  });
+
+  it('leaves unknown languages and oversized code plain', () => {
+    expect(highlightLines('const x = 1\nfoo', 'brainfuck')).toEqual([
+      [{ kind: 'plain', text: 'const x = 1' }], [{ kind: 'plain', text: 'foo' }],
+    ]);
+    expect(highlightLines('const x = 1')).toEqual([[{ kind: 'plain', text: 'const x = 1' }]]);
+    const big = 'const x = 1;\n'.repeat(2_000);
+    expect(highlightLines(big, 'ts').every(l => l.length === 1 && l[0].kind === 'plain')).toBe(true);
+  });
+});
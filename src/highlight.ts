@@ -0,0 +1,232 @@
+import { theme } from './theme';
+
+export type TokenKind =
+  | 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'constant' | 'function'
+  | 'type' | 'property' | 'operator' | 'added' | 'removed' | 'meta';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+export const TOKEN_COLORS: Record<TokenKind, string> = {
+  plain: theme.fg,
+  keyword: theme.synKeyword,
+  string: theme.synString,
+  comment: theme.synComment,
+  number: theme.synOrange,
+  constant: theme.synOrange,
+  function: theme.synFunction,
+  type: theme.synType,
+  property: theme.synViolet,
+  operator: theme.synOperator,
+  added: theme.green,
+  removed: theme.red,
+  meta: theme.synViolet,
+};
+
+/** Past this size a block is shown plain; tokenizing it would stall a streaming render. */
+const MAX_HIGHLIGHT_LENGTH = 20_000;
+
+/**
+ * How to read one language. Rules are tried in order at each position and
+ * must not contain capturing groups. Words matched by `word` are sorted into
+ * keywords, constants, types and function calls.
+ */
+interface Grammar {
+  rules: [TokenKind, RegExp][];
+  word?: RegExp;
+  keywords?: Set<string>;
+  constants?: Set<string>;
+  types?: Set<string>;
+  capitalTypes?: boolean; // a capitalized word is a type
+  ignoreCase?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const NUMBER: [TokenKind, RegExp] = ['number', /\b(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)n?\b/];
+const OPERATOR: [TokenKind, RegExp] = ['operator', /[-+*/%=!<>&|^~?]+/];
+const C_COMMENTS: [TokenKind, RegExp][] = [['comment', /\/\/.*/], ['comment', /\/\*[\s\S]*?(?:\*\/|(?![\s\S]))/]];
+const DOUBLE_QUOTED: [TokenKind, RegExp] = ['string', /"(?:[^"\\\n]|\\.)*"?/];
+const SINGLE_QUOTED: [TokenKind, RegExp] = ['string', /'(?:[^'\\\n]|\\.)*'?/];
+const IDENTIFIER = /[A-Za-z_$][\w$]*/;
+
+const JS: Grammar = {
+  rules: [...C_COMMENTS, DOUBLE_QUOTED, SINGLE_QUOTED, ['string', /`(?:[^`\\]|\\[\s\S])*`?/], NUMBER, OPERATOR],
+  word: IDENTIFIER,
+  keywords: words('abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield'),
+  constants: words('true false null undefined NaN Infinity'),
+  types: words('string number boolean any unknown never object symbol bigint'),
+  capitalTypes: true,
+};
+
+const PYTHON: Grammar = {
+  rules: [
+    ['comment', /#.*/],
+    ['string', /[rbfuRBFU]{0,2}(?:"""[\s\S]*?(?:"""|(?![\s\S]))|'''[\s\S]*?(?:'''|(?![\s\S])))/],
+    ['string', /[rbfuRBFU]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/],
+    ['function', /@[\w.]+/],
+    NUMBER, OPERATOR,
+  ],
+  word: /[A-Za-z_]\w*/,
+  keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda match nonlocal not or pass raise return try while with yield case'),
+  constants: words('True False None self cls'),
+  types: words('int float str bool list dict set tuple bytes object type'),
+  capitalTypes: true,
+};
+
+const GO: Grammar = {
+  rules: [...C_COMMENTS, DOUBLE_QUOTED, ['string', /`[^`]*`?/], ['string', /'(?:[^'\\\n]|\\.)*'/], NUMBER, OPERATOR],
+  word: /[A-Za-z_]\w*/,
+  keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var'),
+  constants: words('true false nil iota'),
+  types: words('bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 uint16 uint32 uint64 uintptr any'),
+  capitalTypes: true,
+};
+
+const RUST: Grammar = {
+  rules: [
+    ...C_COMMENTS, DOUBLE_QUOTED,
+    ['string', /'(?:[^'\\\n]|\\.)'/],
+    ['type', /'[A-Za-z_]\w*/], // lifetimes
+    ['function', /[A-Za-z_]\w*!/], // macros
+    ['meta', /#!?\[[^\]\n]*\]?/],
+    NUMBER, OPERATOR,
+  ],
+  word: /[A-Za-z_]\w*/,
+  keywords: words('as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while'),
+  constants: words('true false None Some Ok Err'),
+  types: words('bool char f32 f64 i8 i16 i32 i64 i128 isize str u8 u16 u32 u64 u128 usize String Vec Option Result Box'),
+  capitalTypes: true,
+};
+
+const SHELL: Grammar = {
+  rules: [
+    ['comment', /(?:^|[ \t])#.*/],
+    DOUBLE_QUOTED,
+    ['string', /'[^']*'?/],
+    ['property', /\$(?:\{[^}\n]*\}?|[\w@#?*!$-]+)/],
+    ['constant', /(?:^|[ \t])--?[A-Za-z][\w-]*/],
+    ['operator', /[|&;<>]+/],
+  ],
+  word: /[A-Za-z_][\w.-]*/,
+  keywords: words('if then else elif fi for in do done case esac while until function return export local readonly unset shift source alias sudo'),
+};
+
+const JSON_GRAMMAR: Grammar = {
+  rules: [
+    ['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+    DOUBLE_QUOTED,
+    ...C_COMMENTS,
+    ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/],
+  ],
+  word: /[A-Za-z_]\w*/,
+  constants: words('true false null'),
+};
+
+const YAML: Grammar = {
+  rules: [
+    ['comment', /(?:^|[ \t])#.*/],
+    ['property', /[\w.-]+(?=[ \t]*:(?:\s|(?![\s\S])))/],
+    DOUBLE_QUOTED, SINGLE_QUOTED,
+    ['meta', /^(?:---|\.\.\.)$/],
+    ['type', /[&*][\w-]+/],
+    ['operator', /^[ \t]*-(?=\s)|[|>][-+]?$/],
+    ['number', /\b\d+(?:\.\d+)?\b/],
+  ],
+  word: /[A-Za-z_][\w-]*/,
+  constants: words('true false null yes no on off True False Null'),
+};
+
+const SQL: Grammar = {
+  rules: [['comment', /--.*/], ['comment', /\/\*[\s\S]*?(?:\*\/|(?![\s\S]))/], SINGLE_QUOTED, ['property', /"[^"\n]*"?/], NUMBER, ['operator', /[-+*/%=<>!|]+/]],
+  word: /[A-Za-z_]\w*/,
+  keywords: words('SELECT FROM WHERE AND OR NOT IN IS LIKE BETWEEN JOIN INNER LEFT RIGHT FULL OUTER CROSS ON AS GROUP BY ORDER HAVING LIMIT OFFSET UNION ALL DISTINCT INSERT INTO VALUES UPDATE SET DELETE CREATE TABLE INDEX VIEW DROP ALTER ADD COLUMN PRIMARY KEY FOREIGN REFERENCES UNIQUE DEFAULT CHECK CONSTRAINT IF EXISTS CASE WHEN THEN ELSE END WITH RETURNING BEGIN COMMIT ROLLBACK TRANSACTION ASC DESC'),
+  constants: words('NULL TRUE FALSE'),
+  types: words('INT INTEGER BIGINT SMALLINT REAL FLOAT DOUBLE NUMERIC DECIMAL TEXT VARCHAR CHAR BLOB BOOLEAN DATE TIME TIMESTAMP JSON JSONB UUID SERIAL'),
+  ignoreCase: true,
+};
+
+const DIFF: Grammar = {
+  rules: [
+    ['meta', /^(?:diff |index |\+\+\+ |--- |@@).*/],
+    ['added', /^\+.*/],
+    ['removed', /^-.*/],
+  ],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: JS, jsx: JS, javascript: JS, mjs: JS, cjs: JS, ts: JS, tsx: JS, typescript: JS,
+  py: PYTHON, python: PYTHON,
+  go: GO, golang: GO,
+  rs: RUST, rust: RUST,
+  sh: SHELL, bash: SHELL, shell: SHELL, zsh: SHELL, console: SHELL,
+  json: JSON_GRAMMAR, jsonc: JSON_GRAMMAR, json5: JSON_GRAMMAR,
+  yaml: YAML, yml: YAML,
+  sql: SQL,
+  diff: DIFF, patch: DIFF,
+};
+
+const compiled = new Map<Grammar, RegExp>();
+
+/** One regex trying every rule and then `word`, each in its own capture group. */
+function pattern(grammar: Grammar): RegExp {
+  let re = compiled.get(grammar);
+  if (!re) {
+    const parts = [...grammar.rules.map(([, r]) => r), ...(grammar.word ? [grammar.word] : [])];
+    re = new RegExp(parts.map(r => `(${r.source})`).join('|'), 'gm');
+    compiled.set(grammar, re);
+  }
+  return re;
+}
+
+function classifyWord(grammar: Grammar, word: string, rest: string): TokenKind {
+  const key = grammar.ignoreCase ? word.toUpperCase() : word;
+  if (grammar.keywords?.has(key)) return 'keyword';
+  if (grammar.constants?.has(key)) return 'constant';
+  if (grammar.types?.has(key)) return 'type';
+  if (/^\s*\(/.test(rest)) return 'function';
+  if (grammar.capitalTypes && /^[A-Z][a-z]/.test(word)) return 'type';
+  return 'plain';
+}
+
+function tokenize(code: string, grammar: Grammar): Token[] {
+  const re = pattern(grammar);
+  re.lastIndex = 0;
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else if (text) tokens.push({ kind, text });
+  };
+
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(code))) {
+    if (m[0] === '') { re.lastIndex++; continue; }
+    if (m.index > last) push('plain', code.slice(last, m.index));
+    const group = m.findIndex((g, i) => i > 0 && g !== undefined) - 1;
+    const end = m.index + m[0].length;
+    push(group < grammar.rules.length ? grammar.rules[group][0] : classifyWord(grammar, m[0], code.slice(end, end + 8)), m[0]);
+    last = end;
+  }
+  if (last < code.length) push('plain', code.slice(last));
+  return tokens;
+}
+
+/** The code split into lines of colored tokens; one plain token per line for languages without a grammar. */
+export function highlightLines(code: string, lang?: string): Token[][] {
+  const grammar = lang ? GRAMMARS[lang.toLowerCase()] : undefined;
+  if (!grammar || code.length > MAX_HIGHLIGHT_LENGTH) {
+    return code.split('\n').map(text => [{ kind: 'plain', text }]);
+  }
+  const lines: Token[][] = [[]];
+  for (const token of tokenize(code, grammar)) {
+    token.text.split('\n').forEach((text, i) => {
+      if (i > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ kind: token.kind, text });
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OutboxEntry, ServerConnection, Session } from '../types';
+
+const OUTBOX_KEY = 'clode.outbox';
+
+/**
+ * Persisted queue of prompts per thread. Prompts are sent in order, one turn at
+ * a time, whenever the owning server is connected and the thread is idle. A
+ * failed prompt blocks its thread's queue until it is retried or cancelled.
+ */
+export function useOutbox(
+  sessions: Session[],
+  connections: Record<string, ServerConnection>,
+  send: (thread_id: string, content: string, model?: string) => Promise<unknown>,
+) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const inFlightRef = useRef<Set<string>>(new Set()); // thread_ids with a send in flight
+
+  useEffect(() => {
+    AsyncStorage.getItem(OUTBOX_KEY)
+      .then(raw => {
+        if (!raw) return;
+        // A send cut short by the app closing may or may not have reached the server
+        const stored = (JSON.parse(raw) as OutboxEntry[]).map(e => e.status === 'sending'
+          ? { ...e, status: 'failed' as const, error: 'Interrupted while sending' }
+          : e);
+        setEntries(stored);
+      })
+      .catch(e => console.warn('[Outbox] Failed to load queued messages:', e))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries))
+      .catch(e => console.warn('[Outbox] Failed to save queued messages:', e));
+  }, [entries, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const heads = new Map<string, OutboxEntry>();
+    for (const entry of entries) {
+      if (!heads.has(entry.thread_id)) heads.set(entry.thread_id, entry);
+    }
+    heads.forEach(entry => {
+      if (entry.status !== 'pending' || inFlightRef.current.has(entry.thread_id)) return;
+      const session = sessions.find(s => s.thread_id === entry.thread_id);
+      if (!session || session.active_turn_id) return;
+      if (connections[session.server_id]?.status !== 'connected') return;
+
+      inFlightRef.current.add(entry.thread_id);
+      setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, status: 'sending', error: undefined } : e));
+      send(entry.thread_id, entry.content, entry.model)
+        .then(() => setEntries(prev => prev.filter(e => e.id !== entry.id)))
+        .catch(err => {
+          const error = err instanceof Error ? err.message : String(err);
+          setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, status: 'failed', error } : e));
+        })
+        .finally(() => inFlightRef.current.delete(entry.thread_id));
+    });
+  }, [entries, sessions, connections, loaded, send]);
+
+  const enqueue = useCallback((thread_id: string, content: string, model?: string) => {
+    const entry: OutboxEntry = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      thread_id, content, model,
+      created_at: Date.now(),
+      status: 'pending',
+    };
+    setEntries(prev => [...prev, entry]);
+    return entry;
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setEntries(prev => prev.map(e => e.id === id && e.status === 'failed'
+      ? { ...e, status: 'pending', error: undefined }
+      : e));
+  }, []);
+
+  /** Remove a queued prompt that has not started sending; returns it so it can be edited. */
+  const cancel = useCallback((id: string) => {
+    const entry = entries.find(e => e.id === id && e.status !== 'sending');
+    if (entry) setEntries(prev => prev.filter(e => e.id !== id));
+    return entry;
+  }, [entries]);
+
+  const dropThread = useCallback((thread_id: string) => {
+    setEntries(prev => prev.filter(e => e.thread_id !== thread_id || e.status === 'sending'));
+  }, []);
+
+  return { entries, enqueue, retry, cancel, dropThread };
+}
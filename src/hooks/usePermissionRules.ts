@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PermissionRule } from '../types';
+
+const RULES_KEY = 'clode.permissionRules';
+
+export type NewPermissionRule = Omit<PermissionRule, 'id' | 'created_at'>;
+
+/**
+ * Session and project permission rules, persisted to AsyncStorage. Changes
+ * return the full updated list so the caller can push it to the server
+ * without waiting for a render.
+ */
+export function usePermissionRules() {
+  const [rules, setRules] = useState<PermissionRule[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const rulesRef = useRef<PermissionRule[]>([]);
+  rulesRef.current = rules;
+
+  useEffect(() => {
+    AsyncStorage.getItem(RULES_KEY)
+      .then(raw => { if (raw) setRules(JSON.parse(raw)); })
+      .catch(e => console.warn('[Rules] Failed to load permission rules:', e))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    AsyncStorage.setItem(RULES_KEY, JSON.stringify(rules))
+      .catch(e => console.warn('[Rules] Failed to save permission rules:', e));
+  }, [rules, loaded]);
+
+  const update = useCallback((next: PermissionRule[]) => {
+    rulesRef.current = next;
+    setRules(next);
+    return next;
+  }, []);
+
+  const addRule = useCallback((rule: NewPermissionRule) => {
+    const exists = rulesRef.current.some(r => r.effect === rule.effect && r.rule === rule.rule
+      && r.scope === rule.scope && r.server_id === rule.server_id && r.thread_id === rule.thread_id && r.cwd === rule.cwd);
+    if (exists) return rulesRef.current;
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    return update([...rulesRef.current, { ...rule, id, created_at: Date.now() }]);
+  }, [update]);
+
+  const removeRule = useCallback((id: string) => update(rulesRef.current.filter(r => r.id !== id)), [update]);
+
+  /** Drop a deleted session's own rules; its project's rules stay. */
+  const forgetThread = useCallback((thread_id: string) => {
+    if (rulesRef.current.some(r => r.thread_id === thread_id)) update(rulesRef.current.filter(r => r.thread_id !== thread_id));
+  }, [update]);
+
+  return { rules, loaded, addRule, removeRule, forgetThread };
+}
@@ -0,0 +1,21 @@
+/** Renders per label since the last reset. Only collected in development builds. */
+const counts = new Map<string, number>();
+let since = Date.now();
+
+/**
+ * Count renders of a component under `label`. Several instances may share a
+ * label; the total is what matters when checking a change cut re-renders.
+ */
+export function useRenderCount(label: string) {
+  if (!__DEV__) return;
+  counts.set(label, (counts.get(label) ?? 0) + 1);
+}
+
+export function getRenderCounts(): { since: number; counts: Record<string, number> } {
+  return { since, counts: Object.fromEntries(counts) };
+}
+
+export function resetRenderCounts() {
+  counts.clear();
+  since = Date.now();
+}
@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useState } from 'react';
+import { ServerProfile } from '../types';
+
+const PROFILES_KEY = 'clode.serverProfiles';
+const LAST_PROFILE_KEY = 'clode.lastProfileId';
+
+export const DEFAULT_SERVER_URL = 'ws://localhost:3284';
+
+export function newProfileId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Build the connect URL, appending ?key= when the profile has a pair key. */
+export function profileConnectUrl(profile: ServerProfile): string {
+  if (!profile.pairKey) return profile.url;
+  const sep = profile.url.includes('?') ? '&' : '?';
+  return `${profile.url}${sep}key=${profile.pairKey}`;
+}
+
+/** Saved server profiles, persisted to AsyncStorage along with the last one used. */
+export function useServerProfiles() {
+  const [profiles, setProfiles] = useState<ServerProfile[]>([]);
+  const [lastProfileId, setLastProfileId] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [rawProfiles, rawLast] = await Promise.all([
+          AsyncStorage.getItem(PROFILES_KEY),
+          AsyncStorage.getItem(LAST_PROFILE_KEY),
+        ]);
+        if (rawProfiles) setProfiles(JSON.parse(rawProfiles));
+        setLastProfileId(rawLast);
+      } catch (e) {
+        console.warn('[Profiles] Failed to load saved servers:', e);
+      } finally {
+        setLoaded(true);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+      .catch(e => console.warn('[Profiles] Failed to save servers:', e));
+  }, [profiles, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const write = lastProfileId
+      ? AsyncStorage.setItem(LAST_PROFILE_KEY, lastProfileId)
+      : AsyncStorage.removeItem(LAST_PROFILE_KEY);
+    write.catch(e => console.warn('[Profiles] Failed to save last server:', e));
+  }, [lastProfileId, loaded]);
+
+  const saveProfile = useCallback((profile: ServerProfile) => {
+    setProfiles(prev => prev.some(p => p.id === profile.id)
+      ? prev.map(p => p.id === profile.id ? profile : p)
+      : [...prev, profile]);
+  }, []);
+
+  const updateProfile = useCallback((id: string, patch: Partial<ServerProfile>) => {
+    setProfiles(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    setLastProfileId(prev => prev === id ? null : prev);
+  }, []);
+
+  return {
+    profiles, lastProfileId, loaded,
+    saveProfile, updateProfile, deleteProfile, setLastProfileId,
+  };
+}
@@ -0,0 +1,119 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { Session } from '../types';
+import { clearAudit, clearStore, deleteStoredSession, diffSessions, loadSessions, pruneAudit, pruneSessions, writeSessions } from '../store';
+import { REPLAY_SERVER_ID } from './useWebSocketServer';
+
+const RETENTION_KEY = 'clode.retentionDays';
+const AUDIT_RETENTION_KEY = 'clode.auditRetentionDays';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WRITE_DELAY_MS = 500; // coalesce the many small state updates of a streaming turn
+
+/** How long idle sessions are kept on the device; null keeps them forever. */
+export const RETENTION_OPTIONS: (number | null)[] = [7, 30, 90, null];
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** How long audit entries are kept, counted from when they were recorded; null keeps them forever. */
+export const AUDIT_RETENTION_OPTIONS: (number | null)[] = [90, 365, null];
+const DEFAULT_AUDIT_RETENTION_DAYS = null;
+
+async function readDays(key: string, fallback: number | null): Promise<number | null> {
+  const raw = await AsyncStorage.getItem(key);
+  return raw === null ? fallback : JSON.parse(raw) as number | null;
+}
+
+/**
+ * Keeps sessions and their transcripts in the on-device store. Stored sessions
+ * are handed to `onRestore` once on startup; after that, changes to `sessions`
+ * are written shortly after they happen. Sessions that drop out of state stay
+ * stored until deleted with `forget`, cleared, or pruned by the retention setting.
+ * The audit log outlives all of that; only its own retention setting and
+ * `clearAuditLog` remove entries from it.
+ */
+export function useSessionStore(sessions: Session[], onRestore: (sessions: Session[]) => void) {
+  const [loaded, setLoaded] = useState(false);
+  const [retentionDays, setRetentionDays] = useState<number | null>(DEFAULT_RETENTION_DAYS);
+  const [auditRetentionDays, setAuditRetentionDays] = useState<number | null>(DEFAULT_AUDIT_RETENTION_DAYS);
+  const writtenRef = useRef<Session[]>([]); // the state as of the last write
+  const latestRef = useRef<Session[]>(sessions);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const clearedRef = useRef<Set<string>>(new Set()); // in state when the store was cleared; rewritten whole once they change
+  latestRef.current = sessions;
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const days = await readDays(RETENTION_KEY, DEFAULT_RETENTION_DAYS);
+        setRetentionDays(days);
+        if (days !== null) await pruneSessions(Date.now() - days * DAY_MS);
+        const auditDays = await readDays(AUDIT_RETENTION_KEY, DEFAULT_AUDIT_RETENTION_DAYS);
+        setAuditRetentionDays(auditDays);
+        if (auditDays !== null) await pruneAudit(Date.now() - auditDays * DAY_MS);
+        const restored = await loadSessions();
+        writtenRef.current = restored;
+        onRestore(restored);
+      } catch (e) {
+        console.warn('[Store] Failed to load saved sessions:', e);
+      } finally {
+        setLoaded(true);
+      }
+    })();
+  }, []);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const next = latestRef.current.filter(s => s.server_id !== REPLAY_SERVER_ID);
+    const current = new Map(next.map(s => [s.thread_id, s]));
+    const base = writtenRef.current.filter(s => {
+      if (!clearedRef.current.has(s.thread_id) || current.get(s.thread_id) === s) return true;
+      clearedRef.current.delete(s.thread_id);
+      return false;
+    });
+    const writes = diffSessions(base, next);
+    writtenRef.current = next;
+    writeSessions(writes).catch(e => console.warn('[Store] Failed to save sessions:', e));
+  }, []);
+
+  useEffect(() => {
+    if (!loaded || timerRef.current) return;
+    timerRef.current = setTimeout(flush, WRITE_DELAY_MS);
+  }, [sessions, loaded, flush]);
+
+  // The app may be killed while in the background; don't leave writes waiting on the timer
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', state => {
+      if (state !== 'active' && timerRef.current) flush();
+    });
+    return () => sub.remove();
+  }, [flush]);
+
+  const changeRetention = useCallback(async (days: number | null) => {
+    setRetentionDays(days);
+    await AsyncStorage.setItem(RETENTION_KEY, JSON.stringify(days));
+    return days === null ? 0 : pruneSessions(Date.now() - days * DAY_MS);
+  }, []);
+
+  const changeAuditRetention = useCallback(async (days: number | null) => {
+    setAuditRetentionDays(days);
+    await AsyncStorage.setItem(AUDIT_RETENTION_KEY, JSON.stringify(days));
+    return days === null ? 0 : pruneAudit(Date.now() - days * DAY_MS);
+  }, []);
+
+  const forget = useCallback((thread_id: string) => {
+    writtenRef.current = writtenRef.current.filter(s => s.thread_id !== thread_id);
+    deleteStoredSession(thread_id).catch(e => console.warn('[Store] Failed to delete session:', e));
+  }, []);
+
+  /** Wipe the store. Sessions still in state are stored again, in full, once they next change. */
+  const clear = useCallback(async () => {
+    if (timerRef.current) flush();
+    await clearStore();
+    clearedRef.current = new Set(writtenRef.current.map(s => s.thread_id));
+  }, [flush]);
+
+  return { loaded, retentionDays, changeRetention, auditRetentionDays, changeAuditRetention, forget, clear, clearAuditLog: clearAudit };
+}
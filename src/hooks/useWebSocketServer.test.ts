@@ -0,0 +1,201 @@
+import { ChildProcess, spawn } from 'child_process';
+import path from 'path';
+import WebSocket from 'ws';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useWebSocketServer } from './useWebSocketServer';
+import { ConnectionStatus, Session } from '../types';
+
+const SERVER_ID = 'mock';
+const TIMEOUT_MS = 10_000;
+
+jest.setTimeout(30_000);
+
+// The hook only uses the browser WebSocket API, which ws implements
+(globalThis as { WebSocket: unknown }).WebSocket = WebSocket;
+
+let server: ChildProcess;
+let url: string;
+
+/** Start mock-server/server.js on a free port and resolve with its URL. */
+function startMockServer(): Promise<{ child: ChildProcess; url: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [path.join(__dirname, '../../mock-server/server.js'), '--port', '0'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let output = '';
+    child.stdout!.on('data', chunk => {
+      output += String(chunk);
+      const match = /Listening on (ws:\/\/localhost:\d+)/.exec(output);
+      if (match) resolve({ child, url: match[1] });
+    });
+    child.on('exit', code => reject(new Error(`Mock server exited with ${code}: ${output}`)));
+  });
+}
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {}); // connection chatter
+  ({ child: server, url } = await startMockServer());
+});
+
+afterAll(() => {
+  server.kill();
+});
+
+/** Render the hook, recording every connection status it passes through. */
+function renderConnected() {
+  const statuses: (ConnectionStatus | undefined)[] = [];
+  const hook = renderHook(() => {
+    const ws = useWebSocketServer();
+    const status = ws.connections[SERVER_ID]?.status;
+    if (statuses[statuses.length - 1] !== status) statuses.push(status);
+    return ws;
+  });
+  return { ...hook, statuses };
+}
+
+async function connectAndCreate(hook: ReturnType<typeof renderConnected>): Promise<Session> {
+  act(() => hook.result.current.connect(SERVER_ID, url));
+  await waitFor(() => expect(hook.result.current.connections[SERVER_ID]?.status).toBe('connected'), { timeout: TIMEOUT_MS });
+  let session!: Session;
+  await act(async () => {
+    session = await hook.result.current.createSession(SERVER_ID, '/tmp/project', 'default');
+  });
+  return session;
+}
+
+function current(hook: ReturnType<typeof renderConnected>, thread_id: string): Session {
+  return hook.result.current.sessions.find(s => s.thread_id === thread_id)!;
+}
+
+/** Text of the assistant reply to a turn, once it's stored. */
+function replyText(session: Session, turn_id: string): string {
+  const items = session.messages.find(m => m.id === `turn-${turn_id}`)?.items ?? [];
+  return items.map(i => i.item.type === 'text' ? i.item.text : '').join('');
+}
+
+async function send(hook: ReturnType<typeof renderConnected>, thread_id: string, content: string): Promise<string> {
+  let turn_id!: string;
+  await act(async () => {
+    ({ turn_id } = await hook.result.current.sendMessage(thread_id, content));
+  });
+  return turn_id;
+}
+
+async function waitForTurn(hook: ReturnType<typeof renderConnected>, thread_id: string, turn_id: string) {
+  await waitFor(() => {
+    const session = current(hook, thread_id);
+    expect(session.active_turn_id).toBeUndefined();
+    expect(session.turns.find(t => t.id === turn_id)?.status).not.toBe('active');
+  }, { timeout: TIMEOUT_MS });
+  return current(hook, thread_id);
+}
+
+describe('useWebSocketServer against the mock server', () => {
+  let hook: ReturnType<typeof renderConnected>;
+
+  beforeEach(() => {
+    hook = renderConnected();
+  });
+
+  afterEach(() => {
+    act(() => hook.result.current.disconnect(SERVER_ID));
+    hook.unmount();
+  });
+
+  it('streams thinking and text, then stores the finished reply', async () => {
+    const { thread_id } = await connectAndCreate(hook);
+    const turn_id = await send(hook, thread_id, '/scenario streaming hi');
+
+    await waitFor(() => {
+      const last = current(hook, thread_id).messages.at(-1);
+      expect(last?.isStreaming).toBe(true);
+      expect(last?.streamingItems?.some(i => i.type === 'text' && i.text.length > 0)).toBe(true);
+    }, { timeout: TIMEOUT_MS });
+
+    const session = await waitForTurn(hook, thread_id, turn_id);
+    expect(session.turns.find(t => t.id === turn_id)?.status).toBe('completed');
+    const reply = session.messages.find(m => m.id === `turn-${turn_id}`);
+    expect(reply?.isStreaming).toBe(false);
+    expect(reply?.items?.some(i => i.item.type === 'thinking')).toBe(true);
+    expect(replyText(session, turn_id)).toContain('Hello from the mock server!');
+  });
+
+  it('interrupts a running turn', async () => {
+    const { thread_id } = await connectAndCreate(hook);
+    const turn_id = await send(hook, thread_id, '/scenario interrupt');
+
+    await waitFor(() => {
+      expect(current(hook, thread_id).messages.at(-1)?.streamingItems?.length).toBeGreaterThan(0);
+    }, { timeout: TIMEOUT_MS });
+    await act(() => hook.result.current.interruptTurn(thread_id));
+
+    const session = await waitForTurn(hook, thread_id, turn_id);
+    expect(session.turns.find(t => t.id === turn_id)?.status).toBe('interrupted');
+    expect(replyText(session, turn_id)).not.toContain('Finished without being interrupted');
+  });
+
+  it('reports a permission denial and succeeds when retried after approval', async () => {
+    const { thread_id } = await connectAndCreate(hook);
+    const prompt = '/scenario denial write the notes';
+    const blocked = await send(hook, thread_id, prompt);
+
+    let session = await waitForTurn(hook, thread_id, blocked);
+    expect(session.hasPermissionDenial).toBe(true);
+    expect(session.permissionDenials).toEqual([expect.objectContaining({ tool_name: 'Write', tool_use_id: 'toolu_mock_w' })]);
+    expect(session.lastBlockedContent).toBe(prompt);
+
+    await act(() => hook.result.current.approvePermission(thread_id, 'acceptEdits'));
+    session = current(hook, thread_id);
+    expect(session.permission_mode).toBe('acceptEdits');
+    expect(session.hasPermissionDenial).toBe(false);
+
+    const retried = await send(hook, thread_id, session.lastBlockedContent!);
+    session = await waitForTurn(hook, thread_id, retried);
+    expect(session.hasPermissionDenial).toBe(false);
+    const items = session.messages.find(m => m.id === `turn-${retried}`)?.items ?? [];
+    expect(items.some(i => i.item.type === 'tool_result' && i.item.content.startsWith('File created'))).toBe(true);
+    expect(replyText(session, retried)).toContain('Created `notes.md`.');
+  });
+
+  it('holds gated tool calls for approval and carries on with each answer', async () => {
+    const { thread_id } = await connectAndCreate(hook);
+    const turn_id = await send(hook, thread_id, '/scenario approval');
+
+    const waitForApproval = async (tool_name: string) => {
+      await waitFor(() => {
+        expect(current(hook, thread_id).pendingApprovals).toEqual([expect.objectContaining({ tool_name, turn_id })]);
+      }, { timeout: TIMEOUT_MS });
+      return current(hook, thread_id).pendingApprovals![0];
+    };
+
+    const bash = await waitForApproval('Bash');
+    expect(bash.tool_input).toEqual(expect.objectContaining({ command: 'npm test -- --coverage' }));
+    await act(() => hook.result.current.respondApproval(thread_id, bash.request_id, 'allow_once'));
+
+    const write = await waitForApproval('Write');
+    await act(() => hook.result.current.respondApproval(thread_id, write.request_id, 'deny', 'not now'));
+
+    const session = await waitForTurn(hook, thread_id, turn_id);
+    expect(session.turns.find(t => t.id === turn_id)?.status).toBe('completed');
+    expect(session.pendingApprovals).toBeUndefined();
+    const results = (session.messages.find(m => m.id === `turn-${turn_id}`)?.items ?? [])
+      .flatMap(i => i.item.type === 'tool_result' ? [i.item] : []);
+    expect(results).toEqual([
+      expect.objectContaining({ tool_use_id: bash.tool_use_id, content: expect.stringContaining('Tests:       31 passed') }),
+      expect.objectContaining({ tool_use_id: write.tool_use_id, content: 'Permission to use Write was denied: not now', is_error: true }),
+    ]);
+    expect(replyText(session, turn_id)).toContain('anything you denied was skipped');
+  });
+
+  it('reconnects after the socket drops and picks the running turn back up', async () => {
+    const { thread_id } = await connectAndCreate(hook);
+    const turn_id = await send(hook, thread_id, '/scenario drop');
+
+    await waitFor(() => expect(hook.statuses).toContain('reconnecting'), { timeout: TIMEOUT_MS });
+    await waitFor(() => expect(hook.result.current.connections[SERVER_ID]?.status).toBe('connected'), { timeout: TIMEOUT_MS });
+
+    const session = await waitForTurn(hook, thread_id, turn_id);
+    expect(session.turns.find(t => t.id === turn_id)?.status).toBe('completed');
+    expect(replyText(session, turn_id)).toContain('Still here');
+  });
+});
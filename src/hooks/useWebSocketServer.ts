@@ -1,29 +1,275 @@
-import { useCallback, useRef, useState } from 'react';
-import { ChatMessage, ConnectionStatus, PermissionDenial, PermissionMode, Session, StoredItem } from '../types';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  ClientNotificationMap, NotificationHandlers, RequestMethod, RequestParams, RequestResult,
+  checkCompatibility, dispatchNotification, hasCapability, initializeParams, isNotificationMethod, isStreamingDelta,
+  parseServerInfo, validateNotification, validateResult,
+} from '../protocol';
+import {
+  ApprovalDecision, ApprovalRequest, AuditEntry, ChatMessage, ConnectionStatus, PermissionMode, PermissionRuleSpec, ProtocolDiagnostic, ServerConnection, ServerInfo, ServerThread,
+  ServerTurn, Session, StoredItem, StreamingItem, TraceDirection, TraceFrame, Turn, TurnStatus,
+} from '../types';
+import { RingBuffer, describeFrame, field } from '../trace';
 
 let msgIdCounter = 1;
 function nextId() { return msgIdCounter++; }
 
 const CALL_TIMEOUT_MS = 30_000;
+const THREAD_START_TIMEOUT_MS = 120_000; // creating a thread on a big repo can take a while
 const INIT_TIMEOUT_MS = 10_000;
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+const RECONNECT_MAX_ATTEMPTS = 10;
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const HEARTBEAT_MAX_MISSED = 3;
+const MAX_DIAGNOSTICS = 200;
+const MAX_TRACE_FRAMES = 2_000;
+const REPLAY_MIN_GAP_MS = 16; // at least a frame apart so each notification sees the previous one's state
+const REPLAY_MAX_GAP_MS = 2_000;
 
-export function useWebSocketServer() {
-  const [url, setUrl] = useState('ws://localhost:3284');
-  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
-  const [lastError, setLastError] = useState<string | null>(null);
+/** Pseudo server that replayed traces run under, so they never mix with live sessions. */
+export const REPLAY_SERVER_ID = 'replay';
+/** Replayed threads, turns and items get ids of their own, so their stream buffers can't mix with a live turn's. */
+const replayId = (id: string) => `replay:${id}`;
+
+/** Notification params with their thread, turn and item ids moved into the replay's namespace. */
+function replayParams(params: unknown): unknown {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return params;
+  const p: Record<string, unknown> = { ...params };
+  for (const key of ['thread_id', 'turn_id']) {
+    if (typeof p[key] === 'string') p[key] = replayId(p[key]);
+  }
+  const item_id = field(p.delta, 'item_id');
+  if (typeof item_id === 'string') p.delta = { ...(p.delta as object), item_id: replayId(item_id) };
+  const id = field(p.item, 'id');
+  if (typeof id === 'string') p.item = { ...(p.item as object), id: replayId(id) };
+  return p;
+}
+
+function replayThread(thread: ServerThread): ServerThread {
+  return {
+    ...thread,
+    thread_id: replayId(thread.thread_id),
+    active_turn_id: thread.active_turn_id && replayId(thread.active_turn_id),
+    turns: thread.turns.map(t => ({ ...t, id: replayId(t.id), items: t.items?.map(i => ({ ...i, id: replayId(i.id) })) })),
+  };
+}
+
+/** Exponential backoff with jitter: half the window is fixed, the other half random. */
+function reconnectDelay(attempt: number): number {
+  const window = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return window / 2 + Math.random() * (window / 2);
+}
+
+function hydrateTurn(thread_id: string, t: ServerTurn): Turn {
+  const messages: ChatMessage[] = [{ id: `user-${t.id}`, role: 'user', content: t.user_content }];
+  if (t.items && t.items.length > 0) {
+    messages.push({ id: `turn-${t.id}`, role: 'assistant', content: '', items: t.items, isStreaming: false });
+  }
+  return {
+    id: t.id, thread_id, status: t.status, user_content: t.user_content, messages,
+    model: t.model, started_at: t.started_at, ended_at: t.ended_at, error: t.error,
+  };
+}
+
+/** Build a Session from a server thread; the transcript is only filled in when it was requested. */
+function hydrateSession(server_id: string, thread: ServerThread, withTranscript: boolean): Session {
+  const turns = thread.turns.map(t => hydrateTurn(thread.thread_id, t));
+  return {
+    thread_id: thread.thread_id,
+    server_id,
+    created_at: thread.created_at,
+    cwd: thread.cwd,
+    permission_mode: thread.permission_mode,
+    active_turn_id: thread.active_turn_id,
+    turns,
+    messages: withTranscript ? turns.flatMap(t => t.messages) : [],
+    transcriptLoaded: withTranscript,
+    parent_thread_id: thread.parent_thread_id,
+    forked_from_turn_id: thread.forked_from_turn_id,
+  };
+}
+
+/** Append newly streamed text to the matching partial items, adding items seen for the first time. */
+function mergeStreamingItems(existing: StreamingItem[], incoming: Iterable<StreamingItem>): StreamingItem[] {
+  const merged = [...existing];
+  for (const inc of incoming) {
+    const idx = merged.findIndex(i => i.key === inc.key);
+    if (idx < 0) {
+      merged.push(inc);
+      continue;
+    }
+    const cur = merged[idx];
+    merged[idx] = { ...cur, text: cur.text + inc.text, tool_use_id: cur.tool_use_id ?? inc.tool_use_id, name: cur.name ?? inc.name };
+  }
+  return merged;
+}
+
+/** Whether a completed item replaces a partial one, by item id or, for older servers, by kind and tool_use_id. */
+function settlesStream(partial: StreamingItem, stored: StoredItem): boolean {
+  if (partial.key === stored.id) return true;
+  const item = stored.item;
+  switch (item.type) {
+    case 'text': return partial.key === 'text';
+    case 'thinking': return partial.key === 'thinking';
+    case 'tool_call': return partial.type === 'tool_input' && partial.tool_use_id === item.tool_use_id;
+    case 'tool_result':
+    case 'command_output':
+      return partial.type === 'tool_output' && !!item.tool_use_id && partial.tool_use_id === item.tool_use_id;
+    default: return false;
+  }
+}
+
+/** Close out the streaming state of a session once its turn is no longer running. */
+function endTurn(s: Session): Session {
+  const msgs = s.messages.map(m => m.isStreaming ? { ...m, isStreaming: false, items: m.items ?? [] } : m);
+  return { ...s, active_turn_id: undefined, messages: msgs };
+}
+
+/** Merge `patch` into the session's record of a turn, adding the record if this is the first we hear of it. */
+function upsertTurn(s: Session, turn_id: string, patch: Partial<Turn>): Session {
+  if (s.turns.some(t => t.id === turn_id)) {
+    return { ...s, turns: s.turns.map(t => t.id === turn_id ? { ...t, ...patch } : t) };
+  }
+  const turn: Turn = { id: turn_id, thread_id: s.thread_id, status: 'active', user_content: '', messages: [], ...patch };
+  return { ...s, turns: [...s.turns, turn] };
+}
+
+/** Record how a turn ended, and stop streaming if it was the one running. Its approval requests go with it. */
+function finishTurn(s: Session, turn_id: string, status: TurnStatus, error?: string): Session {
+  const next = withApprovals(upsertTurn(s, turn_id, { status, error, ended_at: Date.now() }), turn_id, []);
+  return !s.active_turn_id || s.active_turn_id === turn_id ? endTurn(next) : next;
+}
+
+/** Replace the approval requests pending for one turn. */
+function withApprovals(s: Session, turn_id: string, approvals: ApprovalRequest[]): Session {
+  const others = (s.pendingApprovals ?? []).filter(a => a.turn_id !== turn_id);
+  if (others.length === (s.pendingApprovals?.length ?? 0) && approvals.length === 0) return s;
+  const pending = [...others, ...approvals];
+  return { ...s, pendingApprovals: pending.length > 0 ? pending : undefined };
+}
+
+/** The audit entry for a tool call that ran, from its result; null for any other item. */
+function toolAuditEntry(thread_id: string, stored: StoredItem, call?: { name: string; input: unknown }): AuditEntry | null {
+  const item = stored.item;
+  if ((item.type !== 'tool_result' && item.type !== 'command_output') || !item.tool_use_id) return null;
+  const failed = item.type === 'tool_result' ? !!item.is_error : item.exit_code !== 0;
+  let detail: string | undefined;
+  if (item.type === 'command_output') detail = item.exit_code === undefined ? 'killed' : `exit ${item.exit_code}`;
+  else if (failed) detail = item.content.split('\n')[0].slice(0, 200);
+  return {
+    thread_id, at: stored.created_at, kind: 'tool', outcome: failed ? 'failed' : 'succeeded',
+    tool_name: call?.name, tool_use_id: item.tool_use_id, tool_input: call?.input, detail,
+  };
+}
+
+function errorText(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** Completion status as reported by the server; anything unrecognised counts as completed. */
+function completedStatus(status?: string): TurnStatus {
+  return status === 'interrupted' || status === 'error' ? status : 'completed';
+}
+
+export interface CallOptions {
+  timeoutMs?: number; // defaults to CALL_TIMEOUT_MS
+  signal?: AbortSignal;
+  cancelOnServer?: boolean; // send request/cancel when aborted or timed out, if the server supports it (default true)
+}
+
+interface PendingCall {
+  method: string;
+  resolve: (v: unknown) => void;
+  reject: (e: unknown) => void;
+  startedAt: number;
+}
+
+/** Mutable per-server socket state; the render-facing part is mirrored into `connections`. */
+interface Conn {
+  server_id: string;
+  url: string;
+  ws: WebSocket | null;
+  pending: Map<number, PendingCall>;
+  status: ConnectionStatus;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  reconnectAttempt: number;
+  manualClose: boolean;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  heartbeatId: number | null; // id of the ping awaiting a response
+  latePings: Set<number>; // pings that missed their window on this socket; a response to one still shows the server is alive
+  missedHeartbeats: number;
+  serverInfo: ServerInfo | null;
+  threads: Set<string>; // threads the server is known to have: listed, started, forked or resumed
+}
+
+interface Options {
+  onAudit?: (entry: AuditEntry) => void; // mode changes, approval answers and tool results, for the audit log
+  onThreadResumed?: (session: Session) => void; // a thread picked up again with thread/resume or after reconnecting
+}
+
+export function useWebSocketServer({ onAudit, onThreadResumed }: Options = {}) {
+  const [connections, setConnections] = useState<Record<string, ServerConnection>>({});
   const [sessions, setSessions] = useState<Session[]>([]);
-  const wsRef = useRef<WebSocket | null>(null);
-  const pendingRef = useRef<Map<number, {
-    method: string;
-    resolve: (v: unknown) => void;
-    reject: (e: unknown) => void;
-    startedAt: number;
-  }>>(new Map());
+  const [diagnostics, setDiagnostics] = useState<ProtocolDiagnostic[]>([]);
+  const [trace] = useState(() => new RingBuffer<TraceFrame>(MAX_TRACE_FRAMES));
+  const replayRef = useRef<{ cancelled: boolean } | null>(null);
+  // turn_id → partial items whose deltas haven't been rendered yet, keyed like StreamingItem.key
+  const streamBufferRef = useRef<Map<string, { server_id: string; items: Map<string, StreamingItem> }>>(new Map());
+  const streamFrameRef = useRef<number | null>(null);
+  const connsRef = useRef<Map<string, Conn>>(new Map());
+  const openSocketRef = useRef<(conn: Conn) => void>(() => {});
   const sessionRef = useRef<Session[]>([]);
   sessionRef.current = sessions;
+  const auditRef = useRef(onAudit);
+  auditRef.current = onAudit;
+  const resumedRef = useRef(onThreadResumed);
+  resumedRef.current = onThreadResumed;
+  const toolCallsRef = useRef<Map<string, { name: string; input: unknown }>>(new Map()); // tool_use_id → call, to label results
+
+  const setConnState = useCallback((conn: Conn, patch: Partial<Omit<ServerConnection, 'server_id' | 'url'>>) => {
+    if (patch.status) conn.status = patch.status;
+    setConnections(prev => {
+      const current = prev[conn.server_id] ?? {
+        server_id: conn.server_id, url: conn.url, status: 'disconnected', lastError: null, reconnectAttempt: 0,
+        latencyMs: null, serverInfo: null,
+      };
+      return { ...prev, [conn.server_id]: { ...current, url: conn.url, ...patch } };
+    });
+  }, []);
+
+  /** Record a message the client refused to apply. Keeps the newest MAX_DIAGNOSTICS entries. */
+  const reportDiagnostic = useCallback((d: Omit<ProtocolDiagnostic, 'id' | 'at'>) => {
+    console.warn(`[WS:${d.server_id}] ${d.kind}${d.method ? ` (${d.method})` : ''}: ${d.error}`);
+    const entry: ProtocolDiagnostic = { ...d, id: nextId(), at: Date.now() };
+    setDiagnostics(prev => [...prev.slice(-(MAX_DIAGNOSTICS - 1)), entry]);
+  }, []);
+
+  const clearDiagnostics = useCallback(() => setDiagnostics([]), []);
+
+  /** Append a frame (or each frame of a batch) to the trace ring buffer. */
+  const recordFrame = useCallback((
+    server_id: string, direction: TraceDirection, frame: unknown, responseMethod?: (id: unknown) => string | undefined,
+  ) => {
+    const frames = Array.isArray(frame) ? frame : [frame];
+    for (const f of frames) {
+      const id = f && typeof f === 'object' ? (f as Record<string, unknown>).id : undefined;
+      const { method, thread_id } = describeFrame(f, responseMethod?.(id));
+      if (method === 'ping') continue; // a heartbeat every few seconds per server would push real traffic out
+      // Item notifications may name only their turn; file them under its thread so a thread filter keeps them
+      const turn_id = field(field(f, 'params'), 'turn_id');
+      const owner = thread_id ?? (typeof turn_id === 'string'
+        ? sessionRef.current.find(s => s.server_id === server_id
+          && (s.active_turn_id === turn_id || s.turns.some(t => t.id === turn_id)))?.thread_id
+        : undefined);
+      trace.push({ seq: nextId(), at: Date.now(), server_id, direction, method, thread_id: owner, frame: f });
+    }
+  }, [trace]);
+
+  const getTrace = useCallback(() => trace.toArray(), [trace]);
+  const clearTrace = useCallback(() => trace.clear(), [trace]);
 
-  const rejectAllPending = useCallback((reason: string) => {
-    const pending = pendingRef.current;
+  const rejectAllPending = useCallback((conn: Conn, reason: string) => {
+    const pending = conn.pending;
     if (pending.size === 0) return;
     pending.forEach(({ reject }) => {
       reject(new Error(reason));
@@ -31,257 +277,867 @@ export function useWebSocketServer() {
     pending.clear();
   }, []);
 
-  const rawSend = useCallback((msg: object): boolean => {
-    const ws = wsRef.current;
+  const rawSend = useCallback((conn: Conn, msg: object): boolean => {
+    const ws = conn.ws;
     if (!ws || ws.readyState !== WebSocket.OPEN) return false;
     ws.send(JSON.stringify(msg));
+    recordFrame(conn.server_id, 'out', msg);
     return true;
-  }, []);
+  }, [recordFrame]);
 
-  const call = useCallback(<T = unknown>(method: string, params?: object): Promise<T> => {
-    return new Promise((resolve, reject) => {
-      const id = nextId();
-      const startedAt = Date.now();
+  /**
+   * Register a pending request and return its frame without sending it, so
+   * single calls and batches share the same timeout, abort and cancel handling.
+   */
+  const startCall = useCallback(<M extends RequestMethod>(
+    conn: Conn, method: M, params: RequestParams<M>, options: CallOptions = {},
+  ): { frame: object; promise: Promise<RequestResult<M>> } => {
+    const id = nextId();
+    const startedAt = Date.now();
+    const frame = { jsonrpc: '2.0', id, method, params };
+    const { timeoutMs = CALL_TIMEOUT_MS, signal, cancelOnServer = true } = options;
+
+    const promise = new Promise<RequestResult<M>>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      // Forget the request locally and, if asked, tell the server to stop working on it
+      const abandon = (error: Error) => {
+        if (!conn.pending.has(id)) return;
+        conn.pending.delete(id);
+        cleanup();
+        if (cancelOnServer && hasCapability(conn.serverInfo, 'request/cancel')) {
+          const params: ClientNotificationMap['request/cancel'] = { id };
+          rawSend(conn, { jsonrpc: '2.0', method: 'request/cancel', params });
+        }
+        reject(error);
+      };
+      const onAbort = () => abandon(new Error(`Request aborted: ${method}`));
 
-      const sent = rawSend({ jsonrpc: '2.0', id, method, params: params ?? {} });
-      if (!sent) {
-        reject(new Error(`call(${method}): socket not open, cannot send`));
+      conn.pending.set(id, {
+        method,
+        startedAt,
+        resolve: (v) => {
+          cleanup();
+          const checked = validateResult(method, v);
+          if (!checked.ok) {
+            reportDiagnostic({ server_id: conn.server_id, kind: 'invalid_result', method, error: checked.error, raw: v });
+            reject(new Error(`Invalid ${method} response: ${checked.error}`));
+            return;
+          }
+          resolve(checked.value);
+        },
+        reject: (e) => { cleanup(); reject(e); },
+      });
+
+      if (signal?.aborted) {
+        onAbort();
         return;
       }
+      signal?.addEventListener('abort', onAbort);
+      timer = setTimeout(() => {
+        abandon(new Error(`Request timed out: ${method} (${Date.now() - startedAt}ms)`));
+      }, timeoutMs);
+    });
+    return { frame, promise };
+  }, [rawSend, reportDiagnostic]);
 
-      pendingRef.current.set(id, { method, resolve: resolve as (v: unknown) => void, reject, startedAt });
+  const call = useCallback(<M extends RequestMethod>(
+    server_id: string, method: M, params: RequestParams<M>, options?: CallOptions,
+  ): Promise<RequestResult<M>> => {
+    const conn = connsRef.current.get(server_id);
+    if (!conn) return Promise.reject(new Error(`call(${method}): unknown server ${server_id}`));
+    if (!conn.ws || conn.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`call(${method}): socket not open, cannot send`));
+    }
+    const { frame, promise } = startCall(conn, method, params, options);
+    rawSend(conn, frame);
+    return promise;
+  }, [rawSend, startCall]);
 
-      const timer = setTimeout(() => {
-        if (!pendingRef.current.has(id)) return;
-        pendingRef.current.delete(id);
-        reject(new Error(`Request timed out: ${method} (${Date.now() - startedAt}ms)`));
-      }, CALL_TIMEOUT_MS);
+  /**
+   * Send the same method for many params as one JSON-RPC batch. Each entry
+   * settles on its own; servers without batch support get individual calls.
+   */
+  const callBatch = useCallback(<M extends RequestMethod>(
+    server_id: string, method: M, paramsList: RequestParams<M>[], options?: CallOptions,
+  ): Promise<PromiseSettledResult<RequestResult<M>>[]> => {
+    const conn = connsRef.current.get(server_id);
+    if (!conn) return Promise.reject(new Error(`callBatch(${method}): unknown server ${server_id}`));
+    if (!hasCapability(conn.serverInfo, 'batch')) {
+      return Promise.allSettled(paramsList.map(params => call(server_id, method, params, options)));
+    }
+    if (!conn.ws || conn.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`callBatch(${method}): socket not open, cannot send`));
+    }
+    const started = paramsList.map(params => startCall(conn, method, params, options));
+    rawSend(conn, started.map(c => c.frame));
+    return Promise.allSettled(started.map(c => c.promise));
+  }, [call, rawSend, startCall]);
 
-      const origResolve = resolve as (v: unknown) => void;
-      const entry = pendingRef.current.get(id)!;
-      entry.resolve = (v) => { clearTimeout(timer); origResolve(v as T); };
-      entry.reject = (e) => { clearTimeout(timer); reject(e); };
-    });
-  }, [rawSend]);
+  /** Route a call to the server that owns the thread. */
+  const callThread = useCallback(<M extends RequestMethod>(
+    thread_id: string, method: M, params: RequestParams<M>, options?: CallOptions,
+  ): Promise<RequestResult<M>> => {
+    const session = sessionRef.current.find(s => s.thread_id === thread_id);
+    if (!session) return Promise.reject(new Error(`call(${method}): unknown thread ${thread_id}`));
+    return call(session.server_id, method, params, options);
+  }, [call]);
 
   const updateSession = useCallback((thread_id: string, updater: (s: Session) => Session) => {
     setSessions(prev => prev.map(s => s.thread_id === thread_id ? updater(s) : s));
   }, []);
 
-  const handleNotification = useCallback((method: string, params: unknown) => {
-    const p = params as Record<string, unknown>;
+  /** Replayed traces are a recording, not something that happened; they stay out of the audit log. */
+  const audit = useCallback((server_id: string, entry: AuditEntry) => {
+    if (server_id !== REPLAY_SERVER_ID) auditRef.current?.(entry);
+  }, []);
 
-    if (method === 'initialized') return;
+  const auditItems = useCallback((server_id: string, thread_id: string, items: StoredItem[]) => {
+    for (const stored of items) {
+      const { item } = stored;
+      if (item.type === 'tool_call') toolCallsRef.current.set(item.tool_use_id, { name: item.name, input: item.input });
+      const tool_use_id = 'tool_use_id' in item ? item.tool_use_id : undefined;
+      const entry = toolAuditEntry(thread_id, stored, tool_use_id ? toolCallsRef.current.get(tool_use_id) : undefined);
+      if (entry) audit(server_id, entry);
+    }
+  }, [audit]);
 
-    if (method === 'turn/started') {
-      const { turn_id, thread_id } = p as { turn_id: string; thread_id: string };
-      updateSession(thread_id, s => ({ ...s, active_turn_id: turn_id }));
-      return;
+  /**
+   * Apply buffered text deltas in a single state update. Runs at most once per
+   * animation frame, and synchronously before any other notification so the
+   * stream never lands after the item or completion that follows it.
+   */
+  const flushStream = useCallback(() => {
+    if (streamFrameRef.current !== null) {
+      cancelAnimationFrame(streamFrameRef.current);
+      streamFrameRef.current = null;
     }
+    const buffered = streamBufferRef.current;
+    if (buffered.size === 0) return;
+    streamBufferRef.current = new Map();
+    setSessions(prev => prev.map(s => {
+      const pending = s.active_turn_id ? buffered.get(s.active_turn_id) : undefined;
+      if (!pending || pending.server_id !== s.server_id) return s;
+      const turn_id = s.active_turn_id!;
+      const msgs = [...s.messages];
+      // Tool output deltas only carry the tool_use_id; borrow the name from the call
+      const calls = msgs.find(m => m.id === `turn-${turn_id}`)?.items ?? [];
+      const incoming = [...pending.items.values()].map(i => {
+        if (i.name || !i.tool_use_id) return i;
+        const call = calls.find(c => c.item.type === 'tool_call' && c.item.tool_use_id === i.tool_use_id);
+        return call?.item.type === 'tool_call' ? { ...i, name: call.item.name } : i;
+      });
+      const lastMsg = msgs[msgs.length - 1];
+      if (lastMsg && lastMsg.role === 'assistant' && lastMsg.isStreaming) {
+        msgs[msgs.length - 1] = { ...lastMsg, streamingItems: mergeStreamingItems(lastMsg.streamingItems ?? [], incoming) };
+      } else {
+        msgs.push({
+          id: `streaming-${turn_id}`, role: 'assistant', content: '', streamingItems: incoming, isStreaming: true, items: [],
+        });
+      }
+      return { ...s, messages: msgs };
+    }));
+  }, []);
 
-    if (method === 'item/progress') {
-      const { turn_id, delta } = p as { turn_id: string; delta: { type: string; text?: string } };
-      const session = sessionRef.current.find(s => s.active_turn_id === turn_id);
-      if (!session) return;
-      if (delta.type === 'text' && delta.text) {
+  /** One handler per server notification; params arrive already validated. */
+  const notificationHandlers = useMemo<NotificationHandlers>(() => {
+    const findTurnSession = (server_id: string, turn_id: string) =>
+      sessionRef.current.find(s => s.server_id === server_id && s.active_turn_id === turn_id);
+
+    return {
+      'initialized': () => {},
+
+      'turn/started': (_server_id, { turn_id, thread_id }) => {
+        updateSession(thread_id, s => {
+          const known = s.turns.find(t => t.id === turn_id);
+          if (known && known.status !== 'active') return s; // turn/start resolved late and the turn already ended
+          return upsertTurn({ ...s, active_turn_id: turn_id }, turn_id, { started_at: known?.started_at ?? Date.now() });
+        });
+      },
+
+      'item/progress': (server_id, { turn_id, delta }) => {
+        if (!isStreamingDelta(delta) || (!delta.text && !delta.name)) return;
+        // Deltas can arrive many times per frame; buffer them and render once per frame
+        let turn = streamBufferRef.current.get(turn_id);
+        if (!turn) {
+          turn = { server_id, items: new Map() };
+          streamBufferRef.current.set(turn_id, turn);
+        }
+        const key = delta.item_id ?? (delta.tool_use_id ? `${delta.type}:${delta.tool_use_id}` : delta.type);
+        const partial = turn.items.get(key);
+        if (partial) {
+          partial.text += delta.text ?? '';
+        } else {
+          turn.items.set(key, {
+            key, type: delta.type, text: delta.text ?? '', tool_use_id: delta.tool_use_id, name: delta.name,
+          });
+        }
+        if (streamFrameRef.current === null) {
+          streamFrameRef.current = requestAnimationFrame(() => {
+            streamFrameRef.current = null;
+            flushStream();
+          });
+        }
+      },
+
+      'item/created': (server_id, { turn_id, item }) => {
+        const session = findTurnSession(server_id, turn_id);
+        if (!session) return;
+        auditItems(server_id, session.thread_id, [item]);
         setSessions(prev => prev.map(s => {
           if (s.thread_id !== session.thread_id) return s;
-          const msgs = [...s.messages];
-          const lastMsg = msgs[msgs.length - 1];
-          if (lastMsg && lastMsg.role === 'assistant' && lastMsg.isStreaming) {
-            msgs[msgs.length - 1] = { ...lastMsg, streamingText: (lastMsg.streamingText ?? '') + delta.text };
+          // The finished item replaces its partial; a streaming message with nothing left goes away
+          const filteredMsgs = s.messages.flatMap(m => {
+            if (!m.isStreaming || !m.streamingItems) return [m];
+            const remaining = m.streamingItems.filter(p => !settlesStream(p, item));
+            if (remaining.length === m.streamingItems.length) return [m];
+            return remaining.length > 0 ? [{ ...m, streamingItems: remaining }] : [];
+          });
+          let assistantMsg = filteredMsgs.find(m => m.role === 'assistant' && m.id === `turn-${turn_id}`);
+          if (!assistantMsg) {
+            // Finished items sit above whatever is still streaming for the turn
+            const streamingIdx = filteredMsgs.findIndex(m => m.id === `streaming-${turn_id}`);
+            const msg: ChatMessage = { id: `turn-${turn_id}`, role: 'assistant', content: '', items: [item], isStreaming: false };
+            if (streamingIdx >= 0) filteredMsgs.splice(streamingIdx, 0, msg); else filteredMsgs.push(msg);
           } else {
-            msgs.push({ id: `streaming-${turn_id}`, role: 'assistant', content: '', streamingText: delta.text, isStreaming: true, items: [] });
+            const idx = filteredMsgs.findIndex(m => m.id === `turn-${turn_id}`);
+            filteredMsgs[idx] = { ...assistantMsg, items: [...(assistantMsg.items ?? []), item] };
           }
-          return { ...s, messages: msgs };
+          return { ...s, messages: filteredMsgs };
         }));
-      }
-      return;
-    }
+      },
 
-    if (method === 'item/created') {
-      const { turn_id, item } = p as { turn_id: string; item: StoredItem };
-      const session = sessionRef.current.find(s => s.active_turn_id === turn_id);
-      if (!session) return;
-      setSessions(prev => prev.map(s => {
-        if (s.thread_id !== session.thread_id) return s;
-        const msgs = [...s.messages];
-        const filteredMsgs = msgs.filter(m => !(m.isStreaming && item.item.type === 'text'));
-        let assistantMsg = filteredMsgs.find(m => m.role === 'assistant' && m.id === `turn-${turn_id}`);
-        if (!assistantMsg) {
-          filteredMsgs.push({ id: `turn-${turn_id}`, role: 'assistant', content: '', items: [item], isStreaming: false });
-        } else {
-          const idx = filteredMsgs.findIndex(m => m.id === `turn-${turn_id}`);
-          filteredMsgs[idx] = { ...assistantMsg, items: [...(assistantMsg.items ?? []), item] };
+      'turn/permission_denied': (server_id, { thread_id, denials }) => {
+        denials.forEach(d => audit(server_id, {
+          thread_id, at: Date.now(), kind: 'approval', outcome: 'denied',
+          tool_name: d.tool_name, tool_use_id: d.tool_use_id, tool_input: d.tool_input, detail: 'blocked by the permission mode',
+        }));
+        updateSession(thread_id, s => ({
+          ...s,
+          hasPermissionDenial: true,
+          permissionDenials: denials,
+          lastBlockedContent: s.lastBlockedContent ?? s.messages.filter(m => m.role === 'user').pop()?.content,
+        }));
+      },
+
+      'approval/requested': (_server_id, { thread_id, ...request }) => {
+        updateSession(thread_id, s => s.pendingApprovals?.some(a => a.request_id === request.request_id)
+          ? s
+          : { ...s, pendingApprovals: [...s.pendingApprovals ?? [], request] });
+      },
+
+      // Answered, possibly from another device, or withdrawn by the server
+      'approval/resolved': (server_id, { thread_id, request_id, approved }) => {
+        const request = sessionRef.current.find(s => s.thread_id === thread_id)?.pendingApprovals
+          ?.find(a => a.request_id === request_id);
+        // Our own answers are logged by respondApproval
+        if (request && !request.responding && approved !== undefined) {
+          audit(server_id, {
+            thread_id, at: Date.now(), kind: 'approval', outcome: approved ? 'allowed' : 'denied',
+            tool_name: request.tool_name, tool_use_id: request.tool_use_id, tool_input: request.tool_input,
+            detail: 'resolved without an answer from this device',
+          });
         }
-        return { ...s, messages: filteredMsgs };
-      }));
+        updateSession(thread_id, s => {
+          const pending = s.pendingApprovals?.filter(a => a.request_id !== request_id);
+          return pending?.length === s.pendingApprovals?.length ? s : { ...s, pendingApprovals: pending?.length ? pending : undefined };
+        });
+      },
+
+      'turn/completed': (_server_id, { thread_id, turn_id, status }) => {
+        updateSession(thread_id, s => finishTurn(s, turn_id, completedStatus(status)));
+      },
+
+      'turn/error': (_server_id, { thread_id, turn_id, error }) => {
+        updateSession(thread_id, s => finishTurn(s, turn_id, 'error', error ?? 'The turn failed without saying why'));
+      },
+    };
+  }, [flushStream, updateSession, audit, auditItems]);
+
+  const handleNotification = useCallback((server_id: string, method: string, params: unknown) => {
+    const checked = validateNotification(method, params);
+    if (!checked.ok) {
+      reportDiagnostic({
+        server_id,
+        kind: isNotificationMethod(method) ? 'invalid_params' : 'unknown_method',
+        method,
+        error: checked.error,
+        raw: params,
+      });
       return;
     }
+    if (checked.value.method !== 'item/progress') flushStream();
+    dispatchNotification(notificationHandlers, server_id, checked.value);
+  }, [flushStream, notificationHandlers, reportDiagnostic]);
 
-    if (method === 'turn/permission_denied') {
-      const { thread_id, denials } = p as { thread_id: string; denials: PermissionDenial[] };
-      updateSession(thread_id, s => ({
-        ...s,
-        hasPermissionDenial: true,
-        permissionDenials: denials,
-        lastBlockedContent: s.lastBlockedContent ?? s.messages.filter(m => m.role === 'user').pop()?.content,
-      }));
+  /**
+   * Pull a server's thread list and merge it into local state. Sessions whose
+   * transcript is already loaded keep their messages; everything else is
+   * replaced by the server's view. Threads the server no longer has are dropped,
+   * except ones started or forked while the list was in flight, which it
+   * couldn't have included yet. Sessions belonging to other servers are left untouched.
+   */
+  const syncThreads = useCallback(async (server_id: string) => {
+    const conn = connsRef.current.get(server_id);
+    if (!conn || !hasCapability(conn.serverInfo, 'thread/list')) return;
+    const before = new Set(conn.threads);
+    try {
+      const result = await call(server_id, 'thread/list', {});
+      const listed = new Set(result.threads.map(t => t.thread_id));
+      const added = [...conn.threads].filter(id => !before.has(id) && !listed.has(id));
+      conn.threads = new Set([...listed, ...added]);
+      setSessions(prev => {
+        const local = new Map(prev.filter(s => s.server_id === server_id).map(s => [s.thread_id, s]));
+        const synced = result.threads.map(t => {
+          const existing = local.get(t.thread_id);
+          if (existing?.transcriptLoaded) {
+            return { ...existing, cwd: t.cwd, permission_mode: t.permission_mode };
+          }
+          return hydrateSession(server_id, t, false);
+        });
+        const kept = added.flatMap(id => local.get(id) ?? []);
+        return [...prev.filter(s => s.server_id !== server_id), ...synced, ...kept]
+          .sort((a, b) => a.created_at - b.created_at);
+      });
+    } catch (e) {
+      console.warn(`[WS:${server_id}] thread/list failed:`, e);
+    }
+  }, [call]);
+
+  /**
+   * Re-attach to turns that were running when the socket dropped. The server
+   * replays the items produced in the meantime and resumes streaming for turns
+   * that are still active; anything it no longer knows about is closed out.
+   */
+  const reattachTurns = useCallback(async (server_id: string, active: Session[]) => {
+    if (!hasCapability(connsRef.current.get(server_id)?.serverInfo, 'turn/attach')) {
+      // Without turn/attach the server can't resume the stream; close the turns out instead of spinning forever
+      active.forEach(session => updateSession(session.thread_id, s => s.active_turn_id
+        ? finishTurn(s, s.active_turn_id, 'interrupted', 'Connection lost before the turn finished')
+        : s));
       return;
     }
+    if (active.length === 0) return;
+    let results: PromiseSettledResult<RequestResult<'turn/attach'>>[];
+    try {
+      results = await callBatch(server_id, 'turn/attach', active.map(s => ({
+        thread_id: s.thread_id, turn_id: s.active_turn_id!,
+      })));
+    } catch (e) {
+      results = active.map(() => ({ status: 'rejected', reason: e }));
+    }
+    results.forEach((r, i) => {
+      const session = active[i];
+      const turn_id = session.active_turn_id!;
+      if (r.status === 'rejected') {
+        console.warn(`[WS:${server_id}] turn/attach failed for ${session.thread_id}:`, r.reason);
+        updateSession(session.thread_id, s => s.active_turn_id === turn_id
+          ? finishTurn(s, turn_id, 'interrupted', 'Lost track of the turn after reconnecting')
+          : s);
+        return;
+      }
+      const result = r.value;
+      auditItems(server_id, session.thread_id, result.items ?? []);
+      updateSession(session.thread_id, s => {
+        if (s.active_turn_id !== turn_id) return s;
+        const msgs = s.messages.filter(m => !(m.isStreaming && m.id === `streaming-${turn_id}`));
+        if (result.items && result.items.length > 0) {
+          const idx = msgs.findIndex(m => m.id === `turn-${turn_id}`);
+          const existing = idx >= 0 ? msgs[idx].items ?? [] : [];
+          const seen = new Set(existing.map(i => i.id));
+          const items = [...existing, ...result.items.filter(i => !seen.has(i.id))];
+          const msg: ChatMessage = { id: `turn-${turn_id}`, role: 'assistant', content: '', items, isStreaming: false };
+          if (idx >= 0) msgs[idx] = msg; else msgs.push(msg);
+        }
+        const next = { ...s, messages: msgs };
+        return result.status === 'active'
+          ? withApprovals(next, turn_id, result.approvals ?? [])
+          : finishTurn(next, turn_id, result.status, result.error);
+      });
+    });
+  }, [callBatch, updateSession, auditItems]);
 
-    if (method === 'turn/completed' || method === 'turn/error') {
-      const { thread_id } = p as { turn_id: string; thread_id: string; status?: string; error?: string };
-      updateSession(thread_id, s => {
-        const msgs = s.messages.map(m => m.isStreaming ? { ...m, isStreaming: false, items: m.items ?? [] } : m);
-        return { ...s, active_turn_id: undefined, messages: msgs };
+  const clearReconnectTimer = useCallback((conn: Conn) => {
+    if (conn.reconnectTimer) {
+      clearTimeout(conn.reconnectTimer);
+      conn.reconnectTimer = null;
+    }
+  }, []);
+
+  const scheduleReconnect = useCallback((conn: Conn, reason: string) => {
+    const attempt = conn.reconnectAttempt;
+    if (attempt >= RECONNECT_MAX_ATTEMPTS) {
+      conn.reconnectAttempt = 0;
+      setConnState(conn, {
+        status: 'error',
+        reconnectAttempt: 0,
+        lastError: `Lost connection — gave up after ${attempt} reconnect attempts (${reason})`,
       });
       return;
     }
-  }, [updateSession]);
+    const delay = reconnectDelay(attempt);
+    conn.reconnectAttempt = attempt + 1;
+    setConnState(conn, { status: 'reconnecting', reconnectAttempt: attempt + 1, lastError: reason });
+    console.log(`[WS:${conn.server_id}] Reconnecting in ${Math.round(delay)}ms (attempt ${attempt + 1})`);
+    clearReconnectTimer(conn);
+    conn.reconnectTimer = setTimeout(() => {
+      conn.reconnectTimer = null;
+      openSocketRef.current(conn);
+    }, delay);
+  }, [clearReconnectTimer, setConnState]);
 
-  const connect = useCallback((serverUrl: string) => {
-    const existing = wsRef.current;
-    if (existing && existing.url === serverUrl &&
-        (existing.readyState === WebSocket.CONNECTING || existing.readyState === WebSocket.OPEN)) {
-      return;
+  const stopHeartbeat = useCallback((conn: Conn) => {
+    if (conn.heartbeatTimer) {
+      clearInterval(conn.heartbeatTimer);
+      conn.heartbeatTimer = null;
     }
-    if (existing) {
-      existing.close();
+    if (conn.heartbeatId !== null) {
+      conn.pending.delete(conn.heartbeatId);
+      conn.heartbeatId = null;
+    }
+    conn.latePings.clear();
+  }, []);
+
+  /**
+   * Give up on a socket that still reports OPEN but has stopped answering
+   * (half-open TCP). onclose may never fire for it, so recovery starts here.
+   */
+  const dropSocket = useCallback((conn: Conn, reason: string) => {
+    const ws = conn.ws;
+    if (!ws) return;
+    console.warn(`[WS:${conn.server_id}] ${reason}`);
+    conn.ws = null;
+    stopHeartbeat(conn);
+    rejectAllPending(conn, reason);
+    ws.close(4001, reason);
+    setConnState(conn, { latencyMs: null });
+    scheduleReconnect(conn, reason);
+  }, [rejectAllPending, scheduleReconnect, setConnState, stopHeartbeat]);
+
+  /**
+   * Ping the server and record the round trip. Any response, including a
+   * JSON-RPC error from a server without `ping` or one arriving after the
+   * next ping went out, counts as a heartbeat.
+   */
+  const sendHeartbeat = useCallback((conn: Conn) => {
+    if (!conn.ws) return;
+    if (conn.heartbeatId !== null && conn.pending.has(conn.heartbeatId)) {
+      conn.pending.delete(conn.heartbeatId);
+      conn.latePings.add(conn.heartbeatId);
+      conn.missedHeartbeats += 1;
+      if (conn.missedHeartbeats >= HEARTBEAT_MAX_MISSED) {
+        dropSocket(conn, `No heartbeat response for ${conn.missedHeartbeats * HEARTBEAT_INTERVAL_MS / 1000}s`);
+        return;
+      }
     }
-    setStatus('connecting');
-    setLastError(null);
-    setUrl(serverUrl);
-    const ws = new WebSocket(serverUrl);
-    wsRef.current = ws;
+    const id = nextId();
+    const startedAt = Date.now();
+    const answered = () => {
+      if (conn.heartbeatId === id) conn.heartbeatId = null;
+      conn.missedHeartbeats = 0;
+      setConnState(conn, { latencyMs: Date.now() - startedAt });
+    };
+    conn.heartbeatId = id;
+    conn.pending.set(id, { method: 'ping', startedAt, resolve: answered, reject: answered });
+    rawSend(conn, { jsonrpc: '2.0', id, method: 'ping', params: {} });
+  }, [dropSocket, rawSend, setConnState]);
+
+  const startHeartbeat = useCallback((conn: Conn) => {
+    stopHeartbeat(conn);
+    conn.missedHeartbeats = 0;
+    sendHeartbeat(conn);
+    conn.heartbeatTimer = setInterval(() => sendHeartbeat(conn), HEARTBEAT_INTERVAL_MS);
+  }, [sendHeartbeat, stopHeartbeat]);
+
+  const openSocket = useCallback((conn: Conn) => {
+    const isReconnect = conn.status === 'reconnecting';
+    if (!isReconnect) setConnState(conn, { status: 'connecting' });
+    const ws = new WebSocket(conn.url);
+    conn.ws = ws;
 
     ws.onopen = () => {
-      if (wsRef.current !== ws) return;
+      if (conn.ws !== ws) return;
       const id = nextId();
       const startedAt = Date.now();
       const initTimer = setTimeout(() => {
-        if (pendingRef.current.has(id)) {
-          pendingRef.current.delete(id);
-          setLastError('Initialize timed out — server connected but did not respond');
-          setStatus('error');
+        if (conn.pending.has(id)) {
+          conn.pending.delete(id);
+          if (isReconnect) {
+            ws.close(4000, 'Initialize timed out');
+            return;
+          }
+          setConnState(conn, { status: 'error', lastError: 'Initialize timed out — server connected but did not respond' });
         }
       }, INIT_TIMEOUT_MS);
 
-      pendingRef.current.set(id, {
+      conn.pending.set(id, {
         method: 'initialize',
         startedAt,
-        resolve: () => {
+        resolve: (result) => {
           clearTimeout(initTimer);
-          console.log('[WS] Connected');
-          setStatus('connected');
+          const serverInfo = parseServerInfo(result);
+          const incompatible = checkCompatibility(serverInfo);
+          if (incompatible) {
+            // Retrying won't help; close for good and let the user see why
+            conn.manualClose = true;
+            setConnState(conn, { status: 'error', lastError: incompatible, serverInfo, reconnectAttempt: 0 });
+            conn.ws = null;
+            ws.close(1000, 'Incompatible protocol');
+            return;
+          }
+          conn.serverInfo = serverInfo;
+          console.log(`[WS:${conn.server_id}] ${isReconnect ? 'Reconnected' : 'Connected'} to ${serverInfo.name} ${serverInfo.version} (protocol v${serverInfo.protocol_version})`);
+          // Snapshot before syncing so turns that were running when the socket dropped are re-attached
+          const active = sessionRef.current.filter(s => s.server_id === conn.server_id && s.active_turn_id);
+          const opened = sessionRef.current.filter(s => s.server_id === conn.server_id && s.transcriptLoaded);
+          conn.reconnectAttempt = 0;
+          setConnState(conn, { status: 'connected', reconnectAttempt: 0, lastError: null, serverInfo });
+          startHeartbeat(conn);
+          syncThreads(conn.server_id).then(() => {
+            if (!isReconnect) return;
+            reattachTurns(conn.server_id, active);
+            opened.filter(s => conn.threads.has(s.thread_id)).forEach(s => resumedRef.current?.(s));
+          });
         },
         reject: (e) => {
           clearTimeout(initTimer);
-          setLastError(`Initialize rejected: ${e instanceof Error ? e.message : JSON.stringify(e)}`);
-          setStatus('error');
+          setConnState(conn, {
+            status: 'error',
+            lastError: `Initialize rejected: ${e instanceof Error ? e.message : JSON.stringify(e)}`,
+          });
         },
       });
-      ws.send(JSON.stringify({ jsonrpc: '2.0', id, method: 'initialize', params: { client: { name: 'clode-app', version: '1.0.0' } } }));
+      rawSend(conn, { jsonrpc: '2.0', id, method: 'initialize', params: initializeParams() });
     };
 
-    ws.onmessage = (event) => {
-      if (wsRef.current !== ws) return;
-      let msg: Record<string, unknown>;
-      try {
-        msg = JSON.parse(event.data as string);
-      } catch {
+    const handleFrame = (msg: unknown) => {
+      if (!msg || typeof msg !== 'object' || Array.isArray(msg)) {
+        reportDiagnostic({ server_id: conn.server_id, kind: 'invalid_message', error: 'expected a JSON object', raw: msg });
         return;
       }
+      const frame = msg as Record<string, unknown>;
 
-      if ('id' in msg && ('result' in msg || 'error' in msg)) {
-        const id = msg.id as number;
-        const pending = pendingRef.current.get(id);
+      if ('id' in frame && ('result' in frame || 'error' in frame)) {
+        const id = frame.id as number;
+        const pending = conn.pending.get(id);
         if (pending) {
-          pendingRef.current.delete(id);
-          if ('error' in msg) {
-            pending.reject(msg.error);
+          conn.pending.delete(id);
+          if ('error' in frame) {
+            pending.reject(frame.error);
           } else {
-            pending.resolve(msg.result);
+            pending.resolve(frame.result);
           }
+        } else if (conn.latePings.delete(id)) {
+          // Slow, not gone: the missed pings so far don't count against it
+          conn.missedHeartbeats = 0;
+        } else {
+          reportDiagnostic({
+            server_id: conn.server_id, kind: 'unmatched_response',
+            error: `no pending request with id ${String(frame.id)} (late or duplicate response)`, raw: frame,
+          });
         }
         return;
       }
 
-      if ('method' in msg) {
-        handleNotification(msg.method as string, msg.params);
+      if (typeof frame.method === 'string') {
+        handleNotification(conn.server_id, frame.method, frame.params);
         return;
       }
+
+      reportDiagnostic({
+        server_id: conn.server_id, kind: 'invalid_message',
+        error: 'neither a response nor a notification', raw: frame,
+      });
     };
 
-    ws.onclose = (event) => {
-      if (wsRef.current === ws) {
-        wsRef.current = null;
-        rejectAllPending(`WebSocket closed (code=${event.code})`);
+    ws.onmessage = (event) => {
+      if (conn.ws !== ws) return;
+      let msg: unknown;
+      try {
+        msg = JSON.parse(event.data as string);
+      } catch (e) {
+        recordFrame(conn.server_id, 'in', event.data);
+        reportDiagnostic({
+          server_id: conn.server_id, kind: 'parse_error',
+          error: e instanceof Error ? e.message : String(e), raw: event.data,
+        });
+        return;
       }
+      recordFrame(conn.server_id, 'in', msg, id => typeof id !== 'number' ? undefined
+        : conn.pending.get(id)?.method ?? (conn.latePings.has(id) ? 'ping' : undefined));
+      // Batch responses arrive as an array of frames
+      if (Array.isArray(msg)) msg.forEach(handleFrame);
+      else handleFrame(msg);
+    };
+
+    ws.onclose = (event) => {
+      if (conn.ws !== ws) return;
+      conn.ws = null;
+      stopHeartbeat(conn);
+      setConnState(conn, { latencyMs: null });
+      rejectAllPending(conn, `WebSocket closed (code=${event.code})`);
       const reason = event.reason || '';
+      const wasLive = conn.status === 'connected' || conn.status === 'reconnecting';
+      if (!conn.manualClose && event.code !== 1000 && wasLive) {
+        scheduleReconnect(conn, reason || `Connection lost (code ${event.code})`);
+        return;
+      }
       if (event.code === 1000) {
-        setStatus('disconnected');
+        setConnState(conn, { status: 'disconnected' });
       } else if (event.code === 1006) {
-        setLastError(reason || 'Connection failed — check URL and that the server is running');
-        setStatus('error');
+        setConnState(conn, {
+          status: 'error',
+          lastError: reason || 'Connection failed — check URL and that the server is running',
+        });
       } else {
-        setLastError(reason || `Closed with code ${event.code}`);
-        setStatus('error');
+        setConnState(conn, { status: 'error', lastError: reason || `Closed with code ${event.code}` });
       }
     };
 
     ws.onerror = () => {};
-  }, [handleNotification, rejectAllPending]);
+  }, [
+    handleNotification, rawSend, recordFrame, reportDiagnostic, rejectAllPending, setConnState, syncThreads, reattachTurns,
+    scheduleReconnect, startHeartbeat, stopHeartbeat,
+  ]);
+  openSocketRef.current = openSocket;
 
-  const disconnect = useCallback(() => {
-    wsRef.current?.close();
-    setSessions([]);
-  }, []);
+  /** Open (or re-open) the connection for one server; other servers stay connected. */
+  const connect = useCallback((server_id: string, serverUrl: string) => {
+    const existing = connsRef.current.get(server_id);
+    if (existing?.ws && existing.url === serverUrl &&
+        (existing.ws.readyState === WebSocket.CONNECTING || existing.ws.readyState === WebSocket.OPEN)) {
+      return;
+    }
+    if (existing) {
+      clearReconnectTimer(existing);
+      stopHeartbeat(existing);
+      if (existing.ws) {
+        const ws = existing.ws;
+        existing.ws = null;
+        rejectAllPending(existing, 'Reconnecting to a different URL');
+        ws.close();
+      }
+    }
+    const conn: Conn = {
+      server_id,
+      url: serverUrl,
+      ws: null,
+      pending: new Map(),
+      status: 'connecting',
+      reconnectTimer: null,
+      reconnectAttempt: 0,
+      manualClose: false,
+      heartbeatTimer: null,
+      heartbeatId: null,
+      latePings: new Set(),
+      missedHeartbeats: 0,
+      serverInfo: null,
+      threads: new Set(),
+    };
+    connsRef.current.set(server_id, conn);
+    setConnState(conn, { status: 'connecting', lastError: null, reconnectAttempt: 0, serverInfo: null });
+    openSocket(conn);
+  }, [clearReconnectTimer, openSocket, rejectAllPending, setConnState, stopHeartbeat]);
+
+  /** Close one server's connection and drop its sessions. */
+  const disconnect = useCallback((server_id: string) => {
+    const conn = connsRef.current.get(server_id);
+    if (!conn) return;
+    conn.manualClose = true;
+    clearReconnectTimer(conn);
+    stopHeartbeat(conn);
+    conn.reconnectAttempt = 0;
+    const ws = conn.ws;
+    if (ws) {
+      conn.ws = null;
+      rejectAllPending(conn, 'Disconnected');
+      ws.close();
+    }
+    connsRef.current.delete(server_id);
+    setConnections(prev => {
+      const { [server_id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setSessions(prev => prev.filter(s => s.server_id !== server_id));
+  }, [clearReconnectTimer, rejectAllPending, stopHeartbeat]);
+
+  const createSession = useCallback(async (
+    server_id: string, cwd: string, permission_mode: PermissionMode, permission_rules?: PermissionRuleSpec[],
+  ) => {
+    // Servers that don't evaluate rules would ignore them anyway
+    const rules = hasCapability(connsRef.current.get(server_id)?.serverInfo, 'permission/set_rules') && permission_rules?.length
+      ? permission_rules
+      : undefined;
+    const result = await call(server_id, 'thread/start', { cwd, permission_mode, permission_rules: rules }, { timeoutMs: THREAD_START_TIMEOUT_MS });
+    connsRef.current.get(server_id)?.threads.add(result.thread_id);
+    const session: Session = {
+      thread_id: result.thread_id, server_id, created_at: result.created_at, cwd, permission_mode,
+      turns: [], messages: [], transcriptLoaded: true,
+    };
+    setSessions(prev => prev.some(s => s.thread_id === session.thread_id) ? prev : [...prev, session]);
+    return session;
+  }, [call]);
+
+  /** Load the full transcript of a server thread that was only known from thread/list. */
+  const resumeSession = useCallback(async (thread_id: string) => {
+    const server_id = sessionRef.current.find(s => s.thread_id === thread_id)?.server_id;
+    if (!server_id) throw new Error(`Unknown session ${thread_id}`);
+    if (!hasCapability(connsRef.current.get(server_id)?.serverInfo, 'thread/resume')) {
+      throw new Error('This server cannot load past transcripts (no thread/resume support)');
+    }
+    const result = await call(server_id, 'thread/resume', { thread_id });
+    connsRef.current.get(server_id)?.threads.add(thread_id);
+    const session = hydrateSession(server_id, result.thread, true);
+    setSessions(prev => prev.map(s => s.thread_id === thread_id ? session : s));
+    resumedRef.current?.(session);
+    return session;
+  }, [call]);
 
-  const createSession = useCallback(async (cwd: string, permission_mode: PermissionMode) => {
-    const result = await call<{ thread_id: string; created_at: number }>('thread/start', { cwd, permission_mode });
-    const session: Session = { thread_id: result.thread_id, created_at: result.created_at, cwd, permission_mode, turns: [], messages: [] };
-    setSessions(prev => [...prev, session]);
+  /**
+   * Copy a thread into a new one with its history up to and including
+   * `up_to_turn_id`, or none of it when omitted. The fork opens with its transcript loaded.
+   */
+  const forkSession = useCallback(async (thread_id: string, up_to_turn_id?: string) => {
+    const server_id = sessionRef.current.find(s => s.thread_id === thread_id)?.server_id;
+    if (!server_id) throw new Error(`Unknown session ${thread_id}`);
+    if (!hasCapability(connsRef.current.get(server_id)?.serverInfo, 'thread/fork')) {
+      throw new Error('This server cannot fork threads (no thread/fork support)');
+    }
+    const result = await call(server_id, 'thread/fork', { thread_id, up_to_turn_id }, { timeoutMs: THREAD_START_TIMEOUT_MS });
+    const session = hydrateSession(server_id, {
+      ...result.thread,
+      parent_thread_id: result.thread.parent_thread_id ?? thread_id,
+      forked_from_turn_id: result.thread.forked_from_turn_id ?? up_to_turn_id,
+    }, true);
+    connsRef.current.get(server_id)?.threads.add(session.thread_id);
+    setSessions(prev => prev.some(s => s.thread_id === session.thread_id) ? prev : [...prev, session]);
     return session;
   }, [call]);
 
+  /**
+   * Start a turn. The user message is shown optimistically and removed again if
+   * the server never accepts it, so the caller (the outbox) can keep it queued.
+   */
   const sendMessage = useCallback(async (thread_id: string, content: string, model?: string) => {
+    const startedAt = Date.now();
+    const msgId = `user-${startedAt}`;
     setSessions(prev => prev.map(s => {
       if (s.thread_id !== thread_id) return s;
       return {
         ...s,
-        messages: [...s.messages, { id: `user-${Date.now()}`, role: 'user' as const, content }],
+        messages: [...s.messages, { id: msgId, role: 'user' as const, content, delivery: 'sending' as const }],
         lastBlockedContent: content,
         hasPermissionDenial: false,
         permissionDenials: undefined,
       };
     }));
-    const result = await call<{ turn_id: string }>('turn/start', { thread_id, content, model });
+    let result: { turn_id: string };
+    try {
+      result = await callThread(thread_id, 'turn/start', { thread_id, content, model });
+    } catch (e) {
+      updateSession(thread_id, s => ({ ...s, messages: s.messages.filter(m => m.id !== msgId) }));
+      throw e;
+    }
+    // Mark the turn active right away so queued prompts wait for it, even if turn/started is still in flight.
+    // The message takes the turn's id so the turn footer can find it.
+    updateSession(thread_id, s => {
+      const known = s.turns.find(t => t.id === result.turn_id);
+      const ended = !!known && known.status !== 'active';
+      return {
+        ...upsertTurn(s, result.turn_id, { user_content: content, model, started_at: known?.started_at ?? startedAt }),
+        active_turn_id: ended ? s.active_turn_id : s.active_turn_id ?? result.turn_id,
+        messages: s.messages.map(m => m.id === msgId ? { ...m, id: `user-${result.turn_id}`, delivery: 'sent' as const } : m),
+      };
+    });
     return result;
-  }, [call]);
+  }, [callThread, updateSession]);
 
   const interruptTurn = useCallback(async (thread_id: string) => {
-    await call('turn/interrupt', { thread_id });
-  }, [call]);
+    await callThread(thread_id, 'turn/interrupt', { thread_id });
+  }, [callThread]);
 
-  const approvePermission = useCallback(async (thread_id: string, permission_mode?: PermissionMode) => {
+  /** Send a mode change, logging it whether or not the server takes it. */
+  const respondWithMode = useCallback(async (thread_id: string, permission_mode: PermissionMode | undefined, what: string) => {
+    const session = sessionRef.current.find(s => s.thread_id === thread_id);
+    const change = `${what}: ${session?.permission_mode ?? '?'} → ${permission_mode ?? 'acceptEdits'}`;
+    const entry: AuditEntry = { thread_id, at: Date.now(), kind: 'mode', outcome: 'succeeded', detail: change };
     try {
-      await call('approval/respond', { thread_id, approved: true, permission_mode });
-    } catch {}
+      await callThread(thread_id, 'approval/respond', { thread_id, approved: true, permission_mode });
+    } catch (e) {
+      if (session) audit(session.server_id, { ...entry, outcome: 'error', detail: `${change} not applied: ${errorText(e)}` });
+      throw e;
+    }
+    if (session) audit(session.server_id, entry);
+  }, [callThread, audit]);
+
+  const approvePermission = useCallback(async (thread_id: string, permission_mode?: PermissionMode) => {
+    await respondWithMode(thread_id, permission_mode, 'approved blocked tools');
     updateSession(thread_id, s => ({
       ...s,
       permission_mode: permission_mode ?? 'acceptEdits',
       hasPermissionDenial: false,
       permissionDenials: undefined,
     }));
-  }, [call, updateSession]);
+  }, [respondWithMode, updateSession]);
 
-  const changePermissionMode = useCallback(async (thread_id: string, permission_mode: PermissionMode) => {
+  /** Answer an approval request; the turn carries on (or is told no) where it paused. */
+  const respondApproval = useCallback(async (thread_id: string, request_id: string, decision: ApprovalDecision, reason?: string) => {
+    const session = sessionRef.current.find(s => s.thread_id === thread_id);
+    const request = session?.pendingApprovals?.find(a => a.request_id === request_id);
+    const entry: AuditEntry = {
+      thread_id, at: Date.now(), kind: 'approval', outcome: decision === 'deny' ? 'denied' : 'allowed',
+      tool_name: request?.tool_name, tool_use_id: request?.tool_use_id, tool_input: request?.tool_input,
+      detail: decision === 'allow_always' ? 'always allowed for this session' : decision === 'deny' ? reason : undefined,
+    };
+    const mark = (responding: boolean) => updateSession(thread_id, s => ({
+      ...s,
+      pendingApprovals: s.pendingApprovals?.map(a => a.request_id === request_id ? { ...a, responding } : a),
+    }));
+    mark(true);
     try {
-      await call('approval/respond', { thread_id, approved: true, permission_mode });
-    } catch {}
+      await callThread(thread_id, 'approval/respond', {
+        thread_id,
+        request_id,
+        approved: decision !== 'deny',
+        scope: decision === 'allow_always' ? 'session' : 'once',
+        reason: decision === 'deny' ? reason : undefined,
+      });
+    } catch (e) {
+      mark(false);
+      if (session) audit(session.server_id, { ...entry, outcome: 'error', detail: `${decision} not delivered: ${errorText(e)}` });
+      throw e;
+    }
+    if (session) audit(session.server_id, entry);
+    updateSession(thread_id, s => {
+      const pending = s.pendingApprovals?.filter(a => a.request_id !== request_id);
+      return { ...s, pendingApprovals: pending?.length ? pending : undefined };
+    });
+  }, [callThread, updateSession, audit]);
+
+  const changePermissionMode = useCallback(async (thread_id: string, permission_mode: PermissionMode) => {
+    await respondWithMode(thread_id, permission_mode, 'mode changed');
     updateSession(thread_id, s => ({ ...s, permission_mode }));
-  }, [call, updateSession]);
+  }, [respondWithMode, updateSession]);
+
+  /** Replace the rules the server applies to a thread. */
+  const setThreadRules = useCallback(async (thread_id: string, rules: PermissionRuleSpec[]) => {
+    const server_id = sessionRef.current.find(s => s.thread_id === thread_id)?.server_id;
+    if (!server_id) throw new Error(`Unknown session ${thread_id}`);
+    if (!hasCapability(connsRef.current.get(server_id)?.serverInfo, 'permission/set_rules')) {
+      throw new Error('This server does not support permission rules');
+    }
+    await call(server_id, 'permission/set_rules', { thread_id, rules });
+  }, [call]);
+
+  /** Whether a thread's rules can be set right now: its server is connected, evaluates rules and still has the thread. */
+  const threadAcceptsRules = useCallback((thread_id: string) => {
+    const server_id = sessionRef.current.find(s => s.thread_id === thread_id)?.server_id;
+    const conn = server_id ? connsRef.current.get(server_id) : undefined;
+    return conn?.status === 'connected' && hasCapability(conn.serverInfo, 'permission/set_rules') && conn.threads.has(thread_id);
+  }, []);
 
   const setLastBlocked = useCallback((thread_id: string, content: string) => {
     updateSession(thread_id, s => ({ ...s, lastBlockedContent: content }));
@@ -298,15 +1154,128 @@ export function useWebSocketServer() {
   const deleteSession = useCallback(async (thread_id: string) => {
     const session = sessionRef.current.find(s => s.thread_id === thread_id);
     if (session?.active_turn_id) {
-      try { await call('turn/interrupt', { thread_id }); } catch { /* ignore */ }
+      try { await callThread(thread_id, 'turn/interrupt', { thread_id }); } catch { /* ignore */ }
     }
     setSessions(prev => prev.filter(s => s.thread_id !== thread_id));
-  }, [call]);
+  }, [callThread]);
+
+  /** Add sessions loaded from the device store. A session the servers already reported wins over the stored copy. */
+  const restoreSessions = useCallback((restored: Session[]) => {
+    setSessions(prev => {
+      const known = new Set(prev.map(s => s.thread_id));
+      return [...prev, ...restored.filter(s => !known.has(s.thread_id))]
+        .sort((a, b) => a.created_at - b.created_at);
+    });
+  }, []);
+
+  /** Drop sessions whose server isn't connected, e.g. after the stored copies were cleared. */
+  const dropOfflineSessions = useCallback(() => {
+    setSessions(prev => prev.filter(s => {
+      const status = connsRef.current.get(s.server_id)?.status;
+      return status === 'connected' || status === 'reconnecting';
+    }));
+  }, []);
+
+  /** End a replay and drop the sessions it created. */
+  const stopReplay = useCallback(() => {
+    if (replayRef.current) replayRef.current.cancelled = true;
+    replayRef.current = null;
+    for (const [turn_id, turn] of streamBufferRef.current) {
+      if (turn.server_id === REPLAY_SERVER_ID) streamBufferRef.current.delete(turn_id);
+    }
+    setSessions(prev => prev.filter(s => s.server_id !== REPLAY_SERVER_ID));
+    setConnections(prev => {
+      const { [REPLAY_SERVER_ID]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  /**
+   * Rebuild the threads seen in a recorded trace and feed its inbound
+   * notifications back through handleNotification under replay ids, keeping
+   * the original spacing between frames (long gaps are shortened). Prompts and
+   * thread/resume results are applied as the live client would have. Returns the replay sessions
+   * right away and a promise that settles once the last frame has played.
+   */
+  const replayTrace = useCallback((frames: TraceFrame[]): { sessions: Session[]; done: Promise<void> } => {
+    stopReplay();
+    const run = { cancelled: false };
+    replayRef.current = run;
+
+    const threadIds = [...new Set(frames.map(f => f.thread_id).filter((t): t is string => !!t))];
+    const listed = new Map<string, ServerThread>();
+    const responses = frames.filter(f => f.direction === 'in' && field(f.frame, 'result') !== undefined);
+    for (const f of responses.filter(f => f.method === 'thread/list')) {
+      const checked = validateResult('thread/list', field(f.frame, 'result'));
+      if (checked.ok) checked.value.threads.forEach(t => listed.set(t.thread_id, t));
+    }
+    const init = responses.find(f => f.method === 'initialize');
+    const now = Date.now();
+    setConnections(prev => ({
+      ...prev,
+      [REPLAY_SERVER_ID]: {
+        server_id: REPLAY_SERVER_ID, url: 'replay://trace', status: 'connected', lastError: null, reconnectAttempt: 0,
+        latencyMs: null, serverInfo: init ? parseServerInfo(field(init.frame, 'result')) : null,
+      },
+    }));
+    const replaySessions = threadIds.map((id): Session => {
+      const t = listed.get(id);
+      return {
+        thread_id: replayId(id), server_id: REPLAY_SERVER_ID, created_at: t?.created_at ?? now,
+        cwd: t?.cwd ?? '(replay)', permission_mode: t?.permission_mode ?? 'default',
+        turns: [], messages: [], transcriptLoaded: true,
+      };
+    });
+    setSessions(prev => [...prev, ...replaySessions]);
+
+    const play = async () => {
+      const requestThreads = new Map<string, string>(); // server_id:request id → thread, for results that omit it
+      let prevAt: number | null = null;
+      for (const f of frames) {
+        const gap = prevAt === null
+          ? REPLAY_MIN_GAP_MS
+          : Math.min(REPLAY_MAX_GAP_MS, Math.max(REPLAY_MIN_GAP_MS, f.at - prevAt));
+        prevAt = f.at;
+        await new Promise(resolve => setTimeout(resolve, gap));
+        if (run.cancelled) break;
+
+        const method = field(f.frame, 'method');
+        const params = field(f.frame, 'params');
+        const key = `${f.server_id}:${String(field(f.frame, 'id'))}`;
+        const original = f.thread_id ?? (f.direction === 'in' ? requestThreads.get(key) : undefined);
+        const thread_id = original ? replayId(original) : undefined;
+        if (f.direction === 'out') {
+          if (f.thread_id) requestThreads.set(key, f.thread_id);
+          const content = field(params, 'content');
+          if (f.method === 'turn/start' && thread_id && typeof content === 'string') {
+            updateSession(thread_id, s => ({
+              ...s, messages: [...s.messages, { id: `user-${f.seq}`, role: 'user', content, delivery: 'sent' }],
+            }));
+          }
+        } else if (typeof method === 'string') {
+          handleNotification(REPLAY_SERVER_ID, method, replayParams(params));
+        } else if (f.method === 'thread/resume' && thread_id) {
+          const checked = validateResult('thread/resume', field(f.frame, 'result'));
+          if (checked.ok) {
+            const session = hydrateSession(REPLAY_SERVER_ID, { ...replayThread(checked.value.thread), thread_id }, true);
+            setSessions(prev => prev.map(s => s.thread_id === thread_id ? session : s));
+          }
+        } else if (f.method === 'turn/start' && thread_id) {
+          const turn_id = field(field(f.frame, 'result'), 'turn_id');
+          if (typeof turn_id === 'string') {
+            updateSession(thread_id, s => ({ ...s, active_turn_id: s.active_turn_id ?? replayId(turn_id) }));
+          }
+        }
+      }
+    };
+    return { sessions: replaySessions, done: play() };
+  }, [handleNotification, stopReplay, updateSession]);
 
   return {
-    url, status, lastError, sessions,
-    connect, disconnect,
-    createSession, sendMessage, interruptTurn,
-    approvePermission, changePermissionMode, setLastBlocked, dismissPermissionDenial, deleteSession,
+    connections, sessions, diagnostics,
+    connect, disconnect, clearDiagnostics,
+    getTrace, clearTrace, replayTrace, stopReplay,
+    createSession, resumeSession, forkSession, restoreSessions, dropOfflineSessions, sendMessage, interruptTurn,
+    approvePermission, respondApproval, changePermissionMode, setThreadRules, threadAcceptsRules, setLastBlocked, dismissPermissionDenial, deleteSession,
   };
 }
@@ -0,0 +1,20 @@
+import { Lexer, Token } from 'marked';
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/** Assistant text split into Markdown blocks, the same way for the chat and for exports. */
+export function lexMarkdown(text: string): Token[] {
+  return Lexer.lex(text, { gfm: true });
+}
+
+/** The lexer leaves entities typed into the source as they were; decode the common ones. */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(?:amp|lt|gt|quot|#39);/g, e => ENTITIES[e]);
+}
+
+/** Links come from model output; only these can be followed without asking, the rest could dial, text or open another app. */
+export function isSafeLink(href: string): boolean {
+  const scheme = /^([a-z][a-z\d+.-]*:)/i.exec(href.trim())?.[1].toLowerCase();
+  return !!scheme && SAFE_SCHEMES.includes(scheme);
+}
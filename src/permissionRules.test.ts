@@ -0,0 +1,66 @@
+import { exactRule, parseRule, ruleError, ruleSpecs, rulesForSession } from './permissionRules';
+import { PermissionRule } from './types';
+
+describe('parseRule', () => {
+  it('splits a tool from its specifier', () => {
+    expect(parseRule('Bash(npm test:*)')).toEqual({ tool: 'Bash', specifier: 'npm test:*' });
+    expect(parseRule('  Edit( src/** ) ')).toEqual({ tool: 'Edit', specifier: 'src/**' });
+  });
+
+  it('allows a bare tool name and a specifier spanning lines', () => {
+    expect(parseRule('WebFetch')).toEqual({ tool: 'WebFetch', specifier: undefined });
+    expect(parseRule('Bash(echo a\necho b)')).toEqual({ tool: 'Bash', specifier: 'echo a\necho b' });
+  });
+
+  it('rejects text that is not a rule', () => {
+    expect(parseRule('')).toBeNull();
+    expect(parseRule('Bash(')).toBeNull();
+    expect(parseRule('rm -rf /')).toBeNull();
+    expect(parseRule('9Tool')).toBeNull();
+  });
+});
+
+describe('ruleError', () => {
+  it('asks for a rule, explains the syntax, or accepts', () => {
+    expect(ruleError('  ')).toBe('Enter a rule');
+    expect(ruleError('not a rule')).toMatch(/^Rules look like/);
+    expect(ruleError('Read(docs/**)')).toBeNull();
+  });
+});
+
+describe('exactRule', () => {
+  it('allows the exact command or path that was denied', () => {
+    expect(exactRule({ tool_name: 'Bash', tool_use_id: 't', tool_input: { command: 'npm test' } })).toBe('Bash(npm test)');
+    expect(exactRule({ tool_name: 'Write', tool_use_id: 't', tool_input: { file_path: 'a.md' } })).toBe('Write(a.md)');
+  });
+
+  it('has nothing to offer for other tools or missing input', () => {
+    expect(exactRule({ tool_name: 'WebFetch', tool_use_id: 't', tool_input: { url: 'https://x' } })).toBeUndefined();
+    expect(exactRule({ tool_name: 'Bash', tool_use_id: 't' })).toBeUndefined();
+  });
+});
+
+describe('rulesForSession', () => {
+  const rule = (id: string, patch: Partial<PermissionRule>): PermissionRule => ({
+    id, effect: 'allow', rule: `Read(${id})`, server_id: 'srv', scope: 'project', cwd: '/p', created_at: 0, ...patch,
+  });
+  const rules = [
+    rule('project', {}),
+    rule('other-cwd', { cwd: '/q' }),
+    rule('other-server', { server_id: 'srv2' }),
+    rule('session', { scope: 'session', thread_id: 'th1', cwd: undefined }),
+    rule('other-session', { scope: 'session', thread_id: 'th2', cwd: undefined }),
+  ];
+
+  it("puts the session's own rules before its project's", () => {
+    expect(rulesForSession(rules, { server_id: 'srv', cwd: '/p', thread_id: 'th1' }).map(r => r.id)).toEqual(['session', 'project']);
+  });
+
+  it("gives only the project's rules without a thread", () => {
+    expect(rulesForSession(rules, { server_id: 'srv', cwd: '/p' }).map(r => r.id)).toEqual(['project']);
+  });
+
+  it('strips rules down to what the server needs', () => {
+    expect(ruleSpecs(rules.slice(0, 1))).toEqual([{ effect: 'allow', rule: 'Read(project)' }]);
+  });
+});
@@ -0,0 +1,42 @@
+import { PermissionDenial, PermissionRule, PermissionRuleSpec, Session } from './types';
+
+const RULE_PATTERN = /^([A-Za-z][\w-]*)(?:\((.+)\))?$/s;
+const FILE_TOOLS = ['Read', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+/** Split `Tool(specifier)` into its parts; null when the text isn't a rule. */
+export function parseRule(text: string): { tool: string; specifier?: string } | null {
+  const match = RULE_PATTERN.exec(text.trim());
+  if (!match) return null;
+  return { tool: match[1], specifier: match[2]?.trim() || undefined };
+}
+
+/** Why `text` can't be used as a rule, or null if it can. */
+export function ruleError(text: string): string | null {
+  if (!text.trim()) return 'Enter a rule';
+  if (!parseRule(text)) return 'Rules look like Bash(npm test:*), Edit(src/**) or WebFetch';
+  return null;
+}
+
+/** A rule allowing exactly what a denied tool call tried: the command for Bash, the path for file tools. */
+export function exactRule(denial: PermissionDenial): string | undefined {
+  const input = denial.tool_input;
+  if (denial.tool_name === 'Bash' && typeof input?.command === 'string') return `Bash(${input.command})`;
+  if (FILE_TOOLS.includes(denial.tool_name) && typeof input?.file_path === 'string') {
+    return `${denial.tool_name}(${input.file_path})`;
+  }
+  return undefined;
+}
+
+/** Rules that apply to a session: its own, then its project's. Without a thread_id, just the project's. */
+export function rulesForSession(
+  rules: PermissionRule[], session: Pick<Session, 'server_id' | 'cwd'> & { thread_id?: string },
+): PermissionRule[] {
+  return [
+    ...rules.filter(r => r.scope === 'session' && !!session.thread_id && r.thread_id === session.thread_id),
+    ...rules.filter(r => r.scope === 'project' && r.server_id === session.server_id && r.cwd === session.cwd),
+  ];
+}
+
+export function ruleSpecs(rules: PermissionRule[]): PermissionRuleSpec[] {
+  return rules.map(({ effect, rule }) => ({ effect, rule }));
+}
@@ -0,0 +1,84 @@
+import { NOTIFICATION_VALIDATORS, itemValidator, v, validateNotification, validateResult } from './protocol';
+
+describe('v', () => {
+  it('accepts matching primitives and names the path of a mismatch', () => {
+    expect(v.string('a')).toEqual({ ok: true, value: 'a' });
+    expect(v.number('1', 'params.at')).toEqual({ ok: false, error: 'params.at: expected number, got string' });
+    expect(v.boolean(null)).toEqual({ ok: false, error: 'value: expected boolean, got null' });
+  });
+
+  it('treats null and undefined as absent for optional fields', () => {
+    expect(v.optional(v.string)(undefined)).toEqual({ ok: true, value: undefined });
+    expect(v.optional(v.string)(null)).toEqual({ ok: true, value: undefined });
+    expect(v.optional(v.string)(3).ok).toBe(false);
+  });
+
+  it('accepts only plain objects as records', () => {
+    expect(v.record({ a: 1 }).ok).toBe(true);
+    expect(v.record([1])).toEqual({ ok: false, error: 'value: expected object, got array' });
+    expect(v.record('x').ok).toBe(false);
+  });
+
+  it('reports the index of the first bad array element', () => {
+    expect(v.array(v.number)([1, 2, 'x'], 'list')).toEqual({ ok: false, error: 'list[2]: expected number, got string' });
+  });
+
+  it('checks object fields with dotted paths and keeps unknown fields', () => {
+    const check = v.object({ a: v.string, b: v.object({ c: v.number }) });
+    expect(check({ a: 'x', b: { c: 'no' } }, 'params')).toEqual({ ok: false, error: 'params.b.c: expected number, got string' });
+    expect(check({ a: 'x', b: { c: 1 }, extra: true })).toEqual({ ok: true, value: { a: 'x', b: { c: 1 }, extra: true } });
+  });
+
+  it('lists the allowed values of a literal', () => {
+    expect(v.literal('in', 'out')('up')).toEqual({ ok: false, error: "value: expected 'in' | 'out', got string" });
+  });
+
+  it('picks a tagged variant by its key', () => {
+    expect(itemValidator({ type: 'text', text: 'hi' }).ok).toBe(true);
+    expect(itemValidator({ type: 'video' })).toEqual({ ok: false, error: 'type: expected text | thinking | tool_call | tool_result | file_change | command_output, got string' });
+    expect(itemValidator({ type: 'thinking', text: 'hi' })).toEqual({ ok: false, error: 'thinking: expected string, got undefined' });
+  });
+});
+
+describe('NOTIFICATION_VALIDATORS', () => {
+  const toolCall = { type: 'tool_call', tool_use_id: 'toolu_1', name: 'Bash', input: { command: 'ls' } };
+
+  it('accepts item/created with a tool call', () => {
+    const params = { turn_id: 't1', item: { id: 'i1', created_at: 1, item: toolCall } };
+    expect(NOTIFICATION_VALIDATORS['item/created'](params, 'params').ok).toBe(true);
+  });
+
+  it('rejects a tool call whose input is not an object', () => {
+    const params = { turn_id: 't1', item: { id: 'i1', created_at: 1, item: { ...toolCall, input: 'ls' } } };
+    expect(NOTIFICATION_VALIDATORS['item/created'](params, 'params')).toEqual({
+      ok: false, error: 'params.item.item.input: expected object, got string',
+    });
+  });
+
+  it('requires the ids an approval request is answered by', () => {
+    const request = { thread_id: 'th', request_id: 'r1', turn_id: 't1', tool_name: 'Write', tool_use_id: 'toolu_2' };
+    expect(NOTIFICATION_VALIDATORS['approval/requested'](request).ok).toBe(true);
+    const { request_id: _request_id, ...missing } = request;
+    expect(NOTIFICATION_VALIDATORS['approval/requested'](missing).ok).toBe(false);
+  });
+});
+
+describe('validateNotification', () => {
+  it('tags valid params with their method', () => {
+    expect(validateNotification('turn/started', { thread_id: 'th', turn_id: 't1' })).toEqual({
+      ok: true, value: { method: 'turn/started', params: { thread_id: 'th', turn_id: 't1' } },
+    });
+  });
+
+  it('refuses methods it does not know, including inherited keys', () => {
+    expect(validateNotification('turn/exploded', {})).toEqual({ ok: false, error: "unknown notification method 'turn/exploded'" });
+    expect(validateNotification('toString', {}).ok).toBe(false);
+  });
+});
+
+describe('validateResult', () => {
+  it('checks results against the request they answer', () => {
+    expect(validateResult('turn/start', { turn_id: 't1' }).ok).toBe(true);
+    expect(validateResult('turn/start', {})).toEqual({ ok: false, error: 'result.turn_id: expected string, got undefined' });
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  ApprovalRequest, CommandOutputItem, FileChangeItem, FileChangeKind, Item, PermissionDenial, PermissionMode,
+  PermissionRuleSpec, ServerInfo, ServerThread,
+  ServerTurn, StoredItem, StreamingItemType, TextItem, ThinkingItem, ToolCallItem, ToolResultItem, TurnStatus,
+} from './types';
+
+export const CLIENT_INFO = { name: 'clode-app', version: '1.0.0' };
+
+/** Protocol version this client speaks. Servers that predate negotiation report nothing and count as 0. */
+export const PROTOCOL_VERSION = 1;
+export const MIN_SERVER_PROTOCOL_VERSION = 0;
+
+/** Features this client understands, advertised in initialize. */
+export const CLIENT_CAPABILITIES = [
+  'thread/list',
+  'thread/resume',
+  'thread/fork',
+  'turn/attach',
+  'ping',
+  'batch',
+  'request/cancel',
+  'approval/request',
+  'permission/set_rules',
+];
+
+export type ServerCapability =
+  | 'thread/list' | 'thread/resume' | 'thread/fork' | 'turn/attach' | 'ping' | 'batch' | 'request/cancel'
+  | 'approval/request' // pauses on gated tool calls and asks, instead of denying them and ending the turn
+  | 'permission/set_rules';
+
+// ─── Requests ────────────────────────────────────────────────────────────────
+
+export interface InitializeParams {
+  client: { name: string; version: string };
+  protocol_version: number;
+  capabilities: string[];
+}
+
+export interface RequestMap {
+  'initialize': { params: InitializeParams; result: unknown }; // parsed leniently by parseServerInfo
+  'ping': { params: Record<string, never>; result: unknown };
+  'thread/start': {
+    params: { cwd: string; permission_mode: PermissionMode; permission_rules?: PermissionRuleSpec[] };
+    result: { thread_id: string; created_at: number };
+  };
+  'thread/list': { params: Record<string, never>; result: { threads: ServerThread[] } };
+  'thread/resume': { params: { thread_id: string }; result: { thread: ServerThread } };
+  // New thread holding the history up to and including up_to_turn_id (none of it when omitted)
+  'thread/fork': { params: { thread_id: string; up_to_turn_id?: string }; result: { thread: ServerThread } };
+  'turn/start': { params: { thread_id: string; content: string; model?: string }; result: { turn_id: string } };
+  'turn/interrupt': { params: { thread_id: string }; result: unknown };
+  'turn/attach': {
+    params: { thread_id: string; turn_id: string };
+    result: { status: TurnStatus; items?: StoredItem[]; error?: string; approvals?: PendingApproval[] };
+  };
+  // With request_id, answers that approval request; without, approves the thread's blocked tools (older servers)
+  'approval/respond': {
+    params: {
+      thread_id: string;
+      approved: boolean;
+      permission_mode?: PermissionMode;
+      request_id?: string;
+      scope?: 'once' | 'session'; // 'session' keeps allowing this tool for the rest of the thread
+      reason?: string; // passed back to the model when denying
+    };
+    result: unknown;
+  };
+  // Replaces the thread's rules. Deny rules win over allow rules; tools no rule matches fall back to the permission mode.
+  'permission/set_rules': { params: { thread_id: string; rules: PermissionRuleSpec[] }; result: unknown };
+}
+
+export type RequestMethod = keyof RequestMap;
+export type RequestParams<M extends RequestMethod> = RequestMap[M]['params'];
+export type RequestResult<M extends RequestMethod> = RequestMap[M]['result'];
+
+// ─── Notifications ───────────────────────────────────────────────────────────
+
+/**
+ * A piece of an item still being produced. `item_id` matches the id of the
+ * item/created that eventually completes it, so several items can stream at
+ * once. Types this client doesn't know are ignored.
+ */
+export interface ProgressDelta {
+  type: string;
+  text?: string;
+  item_id?: string;
+  tool_use_id?: string; // tool_input and tool_output
+  name?: string; // tool name, on the first tool_input delta
+}
+
+export const STREAMING_DELTA_TYPES: readonly StreamingItemType[] = ['text', 'thinking', 'tool_input', 'tool_output'];
+
+export function isStreamingDelta(delta: ProgressDelta): delta is ProgressDelta & { type: StreamingItemType } {
+  return (STREAMING_DELTA_TYPES as readonly string[]).includes(delta.type);
+}
+
+export interface NotificationMap {
+  'initialized': unknown;
+  'turn/started': { thread_id: string; turn_id: string };
+  'item/progress': { thread_id?: string; turn_id: string; delta: ProgressDelta };
+  'item/created': { thread_id?: string; turn_id: string; item: StoredItem };
+  'turn/permission_denied': { thread_id: string; turn_id?: string; denials: PermissionDenial[] };
+  'approval/requested': { thread_id: string } & PendingApproval;
+  'approval/resolved': { thread_id: string; turn_id: string; request_id: string; approved?: boolean };
+  'turn/completed': { thread_id: string; turn_id: string; status?: string };
+  'turn/error': { thread_id: string; turn_id: string; error?: string };
+}
+
+/** An approval request as the server sends it. */
+export type PendingApproval = Omit<ApprovalRequest, 'responding'>;
+
+export type NotificationMethod = keyof NotificationMap;
+
+/** Notifications the client sends to the server. */
+export interface ClientNotificationMap {
+  'request/cancel': { id: number }; // stop work on an abandoned request
+}
+
+export type Notification = { [M in NotificationMethod]: { method: M; params: NotificationMap[M] } }[NotificationMethod];
+
+export type NotificationHandlers = { [M in NotificationMethod]: (server_id: string, params: NotificationMap[M]) => void };
+
+// ─── Validators ──────────────────────────────────────────────────────────────
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: string };
+export type Validator<T> = (value: unknown, path?: string) => Validation<T>;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const ok = <T>(value: T): Validation<T> => ({ ok: true, value });
+const fail = (path: string, expected: string, value: unknown): Validation<never> =>
+  ({ ok: false, error: `${path || 'value'}: expected ${expected}, got ${describe(value)}` });
+
+/** Minimal structural validators. Objects are checked field by field; unknown extra fields are kept. */
+export const v = {
+  string: ((value, path = '') => typeof value === 'string' ? ok(value) : fail(path, 'string', value)) as Validator<string>,
+  number: ((value, path = '') => typeof value === 'number' ? ok(value) : fail(path, 'number', value)) as Validator<number>,
+  boolean: ((value, path = '') => typeof value === 'boolean' ? ok(value) : fail(path, 'boolean', value)) as Validator<boolean>,
+  unknown: ((value) => ok(value)) as Validator<unknown>,
+  record: ((value, path = '') => isRecord(value) ? ok(value) : fail(path, 'object', value)) as Validator<Record<string, unknown>>,
+
+  literal<T extends string>(...values: T[]): Validator<T> {
+    return (value, path = '') => values.includes(value as T)
+      ? ok(value as T)
+      : fail(path, values.map(x => `'${x}'`).join(' | '), value);
+  },
+
+  optional<T>(inner: Validator<T>): Validator<T | undefined> {
+    return (value, path = '') => value === undefined || value === null ? ok(undefined) : inner(value, path);
+  },
+
+  array<T>(inner: Validator<T>): Validator<T[]> {
+    return (value, path = '') => {
+      if (!Array.isArray(value)) return fail(path, 'array', value);
+      for (let i = 0; i < value.length; i++) {
+        const r = inner(value[i], `${path}[${i}]`);
+        if (!r.ok) return r;
+      }
+      return ok(value as T[]);
+    };
+  },
+
+  object<T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> {
+    return (value, path = '') => {
+      if (!isRecord(value)) return fail(path, 'object', value);
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const r = shape[key](value[key], path ? `${path}.${key}` : key);
+        if (!r.ok) return r;
+      }
+      return ok(value as T);
+    };
+  },
+
+  /** Discriminated union keyed on a string field, e.g. `type`. */
+  tagged<T>(key: string, variants: Record<string, Validator<T>>): Validator<T> {
+    return (value, path = '') => {
+      if (!isRecord(value)) return fail(path, 'object', value);
+      const tag = value[key];
+      const variant = typeof tag === 'string' ? variants[tag] : undefined;
+      if (!variant) return fail(path ? `${path}.${key}` : key, Object.keys(variants).join(' | '), tag);
+      return variant(value, path);
+    };
+  },
+};
+
+const permissionMode = v.literal<PermissionMode>('default', 'acceptEdits', 'bypassPermissions', 'dontAsk');
+const turnStatus = v.literal<TurnStatus>('active', 'completed', 'interrupted', 'error');
+
+export const itemValidator: Validator<Item> = v.tagged<Item>('type', {
+  text: v.object<TextItem>({ type: v.literal('text'), text: v.string }),
+  thinking: v.object<ThinkingItem>({ type: v.literal('thinking'), thinking: v.string }),
+  tool_call: v.object<ToolCallItem>({
+    type: v.literal('tool_call'), tool_use_id: v.string, name: v.string, input: v.record,
+  }),
+  tool_result: v.object<ToolResultItem>({
+    type: v.literal('tool_result'), tool_use_id: v.string, content: v.string, is_error: v.optional(v.boolean),
+  }),
+  file_change: v.object<FileChangeItem>({
+    type: v.literal('file_change'),
+    path: v.string,
+    kind: v.literal<FileChangeKind>('create', 'modify', 'delete', 'rename'),
+    old_path: v.optional(v.string),
+    lines_added: v.optional(v.number),
+    lines_removed: v.optional(v.number),
+    tool_use_id: v.optional(v.string),
+  }),
+  command_output: v.object<CommandOutputItem>({
+    type: v.literal('command_output'),
+    command: v.optional(v.string),
+    stdout: v.string,
+    stderr: v.string,
+    exit_code: v.optional(v.number),
+    tool_use_id: v.optional(v.string),
+  }),
+});
+
+export const storedItemValidator = v.object<StoredItem>({ id: v.string, created_at: v.number, item: itemValidator });
+
+const serverTurn = v.object<ServerTurn>({
+  id: v.string,
+  status: turnStatus,
+  user_content: v.string,
+  items: v.optional(v.array(storedItemValidator)),
+  model: v.optional(v.string),
+  started_at: v.optional(v.number),
+  ended_at: v.optional(v.number),
+  error: v.optional(v.string),
+});
+
+const serverThread = v.object<ServerThread>({
+  thread_id: v.string,
+  created_at: v.number,
+  cwd: v.string,
+  permission_mode: permissionMode,
+  active_turn_id: v.optional(v.string),
+  turns: v.array(serverTurn),
+  parent_thread_id: v.optional(v.string),
+  forked_from_turn_id: v.optional(v.string),
+});
+
+const permissionDenial = v.object<PermissionDenial>({
+  tool_name: v.string, tool_use_id: v.string, tool_input: v.optional(v.record),
+});
+
+const pendingApproval = v.object<PendingApproval>({
+  request_id: v.string, turn_id: v.string, tool_name: v.string, tool_use_id: v.string, tool_input: v.optional(v.record),
+});
+
+export const RESULT_VALIDATORS: { [M in RequestMethod]: Validator<RequestResult<M>> } = {
+  'initialize': v.unknown,
+  'ping': v.unknown,
+  'thread/start': v.object({ thread_id: v.string, created_at: v.number }),
+  'thread/list': v.object({ threads: v.array(serverThread) }),
+  'thread/resume': v.object({ thread: serverThread }),
+  'thread/fork': v.object({ thread: serverThread }),
+  'turn/start': v.object({ turn_id: v.string }),
+  'turn/interrupt': v.unknown,
+  'turn/attach': v.object({
+    status: turnStatus,
+    items: v.optional(v.array(storedItemValidator)),
+    error: v.optional(v.string),
+    approvals: v.optional(v.array(pendingApproval)),
+  }),
+  'approval/respond': v.unknown,
+  'permission/set_rules': v.unknown,
+};
+
+export const NOTIFICATION_VALIDATORS: { [M in NotificationMethod]: Validator<NotificationMap[M]> } = {
+  'initialized': v.unknown,
+  'turn/started': v.object({ thread_id: v.string, turn_id: v.string }),
+  'item/progress': v.object({
+    thread_id: v.optional(v.string),
+    turn_id: v.string,
+    delta: v.object<ProgressDelta>({
+      type: v.string,
+      text: v.optional(v.string),
+      item_id: v.optional(v.string),
+      tool_use_id: v.optional(v.string),
+      name: v.optional(v.string),
+    }),
+  }),
+  'item/created': v.object({ thread_id: v.optional(v.string), turn_id: v.string, item: storedItemValidator }),
+  'turn/permission_denied': v.object({
+    thread_id: v.string, turn_id: v.optional(v.string), denials: v.array(permissionDenial),
+  }),
+  'approval/requested': v.object({
+    thread_id: v.string, request_id: v.string, turn_id: v.string,
+    tool_name: v.string, tool_use_id: v.string, tool_input: v.optional(v.record),
+  }),
+  'approval/resolved': v.object({
+    thread_id: v.string, turn_id: v.string, request_id: v.string, approved: v.optional(v.boolean),
+  }),
+  'turn/completed': v.object({ thread_id: v.string, turn_id: v.string, status: v.optional(v.string) }),
+  'turn/error': v.object({ thread_id: v.string, turn_id: v.string, error: v.optional(v.string) }),
+};
+
+export function isNotificationMethod(method: string): method is NotificationMethod {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_VALIDATORS, method);
+}
+
+export function validateNotification(method: string, params: unknown): Validation<Notification> {
+  if (!isNotificationMethod(method)) return { ok: false, error: `unknown notification method '${method}'` };
+  const r = NOTIFICATION_VALIDATORS[method](params, 'params');
+  return r.ok ? ok({ method, params: r.value } as Notification) : r;
+}
+
+export function validateResult<M extends RequestMethod>(method: M, result: unknown): Validation<RequestResult<M>> {
+  return RESULT_VALIDATORS[method](result, 'result');
+}
+
+/** Route a validated notification to its handler in the dispatch table. */
+export function dispatchNotification(handlers: NotificationHandlers, server_id: string, notification: Notification) {
+  const handler = handlers[notification.method] as (server_id: string, params: unknown) => void;
+  handler(server_id, notification.params);
+}
+
+// ─── Initialize ──────────────────────────────────────────────────────────────
+
+export function initializeParams(): InitializeParams {
+  return {
+    client: CLIENT_INFO,
+    protocol_version: PROTOCOL_VERSION,
+    capabilities: CLIENT_CAPABILITIES,
+  };
+}
+
+/** Read the initialize result into a ServerInfo, tolerating servers that return nothing useful. */
+export function parseServerInfo(result: unknown): ServerInfo {
+  const r = isRecord(result) ? result : {};
+  const server = isRecord(r.server) ? r.server : {};
+  const strings = (x: unknown) => Array.isArray(x) ? x.filter((s): s is string => typeof s === 'string') : [];
+  return {
+    name: typeof server.name === 'string' ? server.name : 'claude-app-server',
+    version: typeof server.version === 'string' ? server.version : 'unknown',
+    protocol_version: typeof r.protocol_version === 'number' ? r.protocol_version : 0,
+    capabilities: strings(r.capabilities),
+    models: strings(r.models),
+    home_dir: typeof r.home_dir === 'string' ? r.home_dir : undefined,
+  };
+}
+
+/** Returns a user-facing reason when the server's protocol can't be used, or null if it can. */
+export function checkCompatibility(info: ServerInfo): string | null {
+  if (info.protocol_version > PROTOCOL_VERSION) {
+    return `${info.name} ${info.version} speaks protocol v${info.protocol_version}, `
+      + `but this app only supports up to v${PROTOCOL_VERSION}. Update the app.`;
+  }
+  if (info.protocol_version < MIN_SERVER_PROTOCOL_VERSION) {
+    return `${info.name} ${info.version} speaks protocol v${info.protocol_version}, `
+      + `but this app needs at least v${MIN_SERVER_PROTOCOL_VERSION}. Update claude-app-server.`;
+  }
+  return null;
+}
+
+export function hasCapability(info: ServerInfo | null | undefined, capability: ServerCapability): boolean {
+  return !!info && info.capabilities.includes(capability);
+}
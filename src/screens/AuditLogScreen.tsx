@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AuditFormat, shareAuditLog } from '../audit';
+import { loadAudit } from '../store';
+import { toolInputSummary } from '../toolInput';
+import { AuditEntry, AuditKind, AuditOutcome } from '../types';
+import { theme } from '../theme';
+
+const KIND_LABELS: Record<AuditKind, string> = { mode: 'mode', approval: 'approval', tool: 'tool' };
+
+const OUTCOME_COLORS: Record<AuditOutcome, string> = {
+  allowed: theme.green,
+  succeeded: theme.green,
+  denied: theme.yellow,
+  failed: theme.red,
+  error: theme.red,
+};
+
+interface Props {
+  thread_id: string;
+  cwd: string;
+  onBack: () => void;
+}
+
+function time(at: number): string {
+  const d = new Date(at);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString()}`;
+}
+
+function Chips<T extends string>({ values, selected, label, onSelect }: {
+  values: T[];
+  selected: T | null;
+  label: (value: T) => string;
+  onSelect: (value: T | null) => void;
+}) {
+  return (
+    <View style={styles.chips}>
+      <TouchableOpacity style={[styles.chip, selected === null && styles.chipSelected]} onPress={() => onSelect(null)}>
+        <Text style={[styles.chipText, selected === null && styles.chipTextSelected]}>all</Text>
+      </TouchableOpacity>
+      {values.map(v => (
+        <TouchableOpacity key={v} style={[styles.chip, selected === v && styles.chipSelected]} onPress={() => onSelect(v)}>
+          <Text style={[styles.chipText, selected === v && styles.chipTextSelected]}>{label(v)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+function Entry({ entry }: { entry: AuditEntry }) {
+  const [expanded, setExpanded] = useState(false);
+  const summary = toolInputSummary(entry.tool_input);
+  return (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => setExpanded(e => !e)}
+      disabled={entry.tool_input === undefined}
+      activeOpacity={0.8}
+    >
+      <View style={styles.rowHeader}>
+        <Text style={[styles.outcome, { color: OUTCOME_COLORS[entry.outcome] }]}>{entry.outcome}</Text>
+        <Text style={styles.kind}>{KIND_LABELS[entry.kind]}</Text>
+        {!!entry.tool_name && <Text style={styles.tool}>{entry.tool_name}</Text>}
+        <Text style={styles.time}>{time(entry.at)}</Text>
+      </View>
+      {!!summary && <Text style={styles.summary} numberOfLines={expanded ? undefined : 2}>{summary}</Text>}
+      {!!entry.detail && <Text style={styles.detail}>{entry.detail}</Text>}
+      {expanded && <Text style={styles.input} selectable>{JSON.stringify(entry.tool_input, null, 2)}</Text>}
+    </TouchableOpacity>
+  );
+}
+
+/** Every mode change, approval answer and tool call of one session, filterable and exportable. */
+export function AuditLogScreen({ thread_id, cwd, onBack }: Props) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [tool, setTool] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<AuditOutcome | null>(null);
+
+  const refresh = useCallback(() => {
+    setRefreshing(true);
+    loadAudit(thread_id)
+      .then(setEntries)
+      .catch(e => {
+        console.warn('[Audit] Failed to load the log:', e);
+        setEntries([]);
+      })
+      .finally(() => setRefreshing(false));
+  }, [thread_id]);
+  useEffect(refresh, [refresh]);
+
+  const tools = useMemo(() => [...new Set((entries ?? []).flatMap(e => e.tool_name ? [e.tool_name] : []))].sort(), [entries]);
+  const outcomes = useMemo(() => [...new Set((entries ?? []).map(e => e.outcome))].sort(), [entries]);
+  const shown = useMemo(() => (entries ?? [])
+    .filter(e => (tool === null || e.tool_name === tool) && (outcome === null || e.outcome === outcome))
+    .reverse(), [entries, tool, outcome]);
+
+  const exportAs = async (format: AuditFormat) => {
+    try {
+      await shareAuditLog(thread_id, [...shown].reverse(), format);
+    } catch (e) {
+      Alert.alert('Export failed', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleExport = () => {
+    const filtered = tool !== null || outcome !== null;
+    Alert.alert(
+      'Export audit log',
+      `${shown.length} entr${shown.length === 1 ? 'y' : 'ies'}${filtered ? ' matching the current filters' : ''}.`,
+      [
+        { text: 'CSV', onPress: () => { exportAs('csv'); } },
+        { text: 'JSON', onPress: () => { exportAs('json'); } },
+        { text: 'Cancel', style: 'cancel' },
+      ],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.backText}>←</Text>
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Audit log</Text>
+          <Text style={styles.headerMeta} numberOfLines={1}>#{thread_id.slice(0, 8)} · {cwd}</Text>
+        </View>
+        <TouchableOpacity onPress={handleExport} disabled={shown.length === 0} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={[styles.exportText, shown.length === 0 && styles.exportDisabled]}>⇪</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filters}>
+        {tools.length > 0 && <Chips values={tools} selected={tool} label={t => t} onSelect={setTool} />}
+        {outcomes.length > 0 && <Chips values={outcomes} selected={outcome} label={o => o} onSelect={setOutcome} />}
+      </View>
+
+      <FlatList
+        data={shown}
+        keyExtractor={e => String(e.id)}
+        renderItem={({ item }) => <Entry entry={item} />}
+        contentContainerStyle={styles.list}
+        refreshing={refreshing}
+        onRefresh={refresh}
+        ListEmptyComponent={
+          <Text style={styles.empty}>
+            {entries === null ? 'reading...' : entries.length === 0 ? 'Nothing recorded for this session yet' : 'No entries match'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.bg },
+
+  // Header
+  header: {
+    flexDirection: 'row', alignItems: 'center',
+    paddingHorizontal: 16, paddingVertical: 12,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1, borderBottomColor: theme.border,
+  },
+  backBtn: { marginRight: 14 },
+  backText: { color: theme.accent, fontSize: 22, lineHeight: 28 },
+  headerCenter: { flex: 1 },
+  headerTitle: { color: theme.fg, fontSize: 15, fontWeight: '700' },
+  headerMeta: { color: theme.fgDimmer, fontSize: 11, fontFamily: 'monospace', marginTop: 2 },
+  exportText: { color: theme.accent, fontSize: 18 },
+  exportDisabled: { color: theme.fgMuted },
+
+  // Filters
+  filters: { paddingHorizontal: 12, paddingTop: 10, gap: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  chipSelected: { backgroundColor: theme.greenBg, borderColor: theme.green },
+  chipText: { color: theme.fgDim, fontSize: 11, fontWeight: '600' },
+  chipTextSelected: { color: theme.green },
+
+  // Entries
+  list: { padding: 12, paddingBottom: 24 },
+  empty: {
+    color: theme.fgDimmer, fontSize: 12, fontFamily: 'monospace',
+    textAlign: 'center', marginTop: 24,
+  },
+  row: {
+    backgroundColor: theme.surface, borderRadius: 10,
+    borderWidth: 1, borderColor: theme.border,
+    padding: 10, marginBottom: 6, gap: 4,
+  },
+  rowHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  outcome: { fontSize: 10, fontWeight: '700', fontFamily: 'monospace', textTransform: 'uppercase' },
+  kind: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+  tool: { color: theme.synFunction, fontSize: 12, fontWeight: '600' },
+  time: { flex: 1, color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace', textAlign: 'right' },
+  summary: { color: theme.fg, fontSize: 12, fontFamily: 'monospace' },
+  detail: { color: theme.fgDim, fontSize: 12 },
+  input: {
+    color: theme.fgDim, fontSize: 11, fontFamily: 'monospace',
+    backgroundColor: theme.bgDark, borderRadius: 6, padding: 8, marginTop: 2,
+  },
+});
@@ -1,18 +1,25 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
-  Animated, FlatList, KeyboardAvoidingView, Modal, Platform, StyleSheet, Text, TextInput,
+  Alert, Animated, FlatList, KeyboardAvoidingView, Modal, Platform, ScrollView, StyleSheet, Text, TextInput,
   TouchableOpacity, View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ApprovalCard } from '../components/ApprovalCard';
+import { ExportSheet } from '../components/ExportSheet';
 import { MessageBubble } from '../components/MessageBubble';
 import { PermissionBanner } from '../components/PermissionBanner';
-import { PermissionMode, Session } from '../types';
+import { PermissionRulesEditor, RuleDraft } from '../components/PermissionRulesEditor';
+import { TurnFooter } from '../components/TurnFooter';
+import { useRenderCount } from '../hooks/useRenderCount';
+import {
+  ApprovalDecision, ApprovalRequest, ChatMessage, OutboxEntry, PermissionDenial, PermissionMode, PermissionRule, Session, Turn,
+} from '../types';
 import { theme } from '../theme';
 
 // ─── Neovim-style braille spinner for input area ─────────────────────────────
 const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
 
-function InputSpinner() {
+function InputSpinner({ label = 'working' }: { label?: string }) {
   const [frame, setFrame] = useState(0);
   const opacity = useRef(new Animated.Value(0.6)).current;
 
@@ -31,40 +38,65 @@ function InputSpinner() {
   return (
     <Animated.View style={[styles.inputSpinner, { opacity }]}>
       <Text style={styles.inputSpinnerChar}>{SPINNER_FRAMES[frame]}</Text>
-      <Text style={styles.inputSpinnerLabel}>working</Text>
+      <Text style={styles.inputSpinnerLabel}>{label}</Text>
     </Animated.View>
   );
 }
 
-const MODELS = ['claude-sonnet-4-6', 'claude-opus-4-6', 'claude-haiku-4-5'];
+const DEFAULT_MODELS = ['claude-sonnet-4-6', 'claude-opus-4-6', 'claude-haiku-4-5'];
 const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'bypassPermissions', 'dontAsk'];
 
 interface Props {
   session: Session;
+  reconnecting?: boolean;
+  offline?: boolean; // server not connected; showing the transcript stored on the device
+  latencyMs?: number | null;
+  models?: string[]; // advertised by the server; falls back to DEFAULT_MODELS
+  readOnly?: boolean; // replaying a recorded trace; nothing can be sent
+  focus?: { message_id: string; terms: string[] }; // opened from a search result: scroll to and highlight this message
+  queued: OutboxEntry[];
   onSendMessage: (thread_id: string, content: string, model?: string) => Promise<void>;
+  onRetryQueued: (id: string) => void;
+  onCancelQueued: (id: string) => OutboxEntry | undefined;
   onInterrupt: (thread_id: string) => Promise<void>;
   onApprovePermission: (thread_id: string, mode: PermissionMode) => Promise<void>;
+  onRespondApproval: (thread_id: string, request_id: string, decision: ApprovalDecision, reason?: string) => Promise<void>;
   onChangePermission: (thread_id: string, mode: PermissionMode) => Promise<void>;
+  rules: PermissionRule[]; // the session's own and its project's
+  onAddRule?: (thread_id: string, draft: RuleDraft) => Promise<void>; // omitted when the server can't take rules
+  onRemoveRule?: (thread_id: string, rule: PermissionRule) => Promise<void>;
+  onShowAudit?: () => void;
   onDismissBanner: (thread_id: string) => void;
+  /** Fork the thread after `up_to_turn_id` (from the start when omitted), optionally sending a prompt in the fork. */
+  onFork?: (thread_id: string, up_to_turn_id?: string, resend?: { content: string; model?: string }) => Promise<void>;
   onBack: () => void;
 }
 
 export function ChatScreen({
-  session, onSendMessage, onInterrupt, onApprovePermission, onChangePermission, onDismissBanner, onBack,
+  session, reconnecting, offline, latencyMs, models: serverModels, readOnly, focus, queued, onSendMessage, onRetryQueued, onCancelQueued, onInterrupt, onApprovePermission, onRespondApproval, onChangePermission, rules, onAddRule, onRemoveRule, onShowAudit, onDismissBanner, onFork, onBack,
 }: Props) {
+  useRenderCount('ChatScreen');
   const insets = useSafeAreaInsets();
   const [input, setInput] = useState('');
-  const [model, setModel] = useState(MODELS[0]);
+  const models = serverModels && serverModels.length > 0 ? serverModels : DEFAULT_MODELS;
+  const [model, setModel] = useState(models[0]);
   const [showModelPicker, setShowModelPicker] = useState(false);
   const [showPermPicker, setShowPermPicker] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [sending, setSending] = useState(false);
+  const [editing, setEditing] = useState<{ up_to_turn_id?: string; model?: string } | null>(null);
+  const [editText, setEditText] = useState('');
+  const [forking, setForking] = useState(false);
   const flatListRef = useRef<FlatList>(null);
   const lastUserMessage = useRef<string>('');
-  const autoScrollEnabled = useRef(true);
+  const autoScrollEnabled = useRef(!focus);
+  const focusedRef = useRef<string | null>(null);
 
   const isActive = !!session.active_turn_id;
 
   const hasBlockedAction = !!session.hasPermissionDenial && !isActive;
+  const approvals = session.pendingApprovals ?? [];
+  const spinnerLabel = approvals.length > 0 ? 'waiting for approval' : undefined;
 
   const handleSend = useCallback(async () => {
     const text = input.trim();
@@ -79,27 +111,177 @@ export function ChatScreen({
     }
   }, [input, isActive, sending, onSendMessage, session.thread_id, model]);
 
+  // Queued prompts render after the transcript; one being sent already shows there
+  const messages = useMemo<ChatMessage[]>(() => [
+    ...session.messages,
+    ...queued
+      .filter(e => e.status !== 'sending')
+      .map(e => ({
+        id: `outbox-${e.id}`, role: 'user' as const, content: e.content,
+        delivery: e.status, deliveryError: e.error,
+      })),
+  ], [session.messages, queued]);
+
+  const handleQueuedPress = useCallback((message: ChatMessage) => {
+    const id = message.id.replace(/^outbox-/, '');
+    const entry = queued.find(e => e.id === id);
+    if (!entry || entry.status === 'sending') return;
+    Alert.alert(
+      entry.status === 'failed' ? 'Message not sent' : 'Queued message',
+      entry.error ?? 'Will be sent when the connection is back.',
+      [
+        ...(entry.status === 'failed' ? [{ text: 'Retry', onPress: () => onRetryQueued(entry.id) }] : []),
+        {
+          text: 'Edit',
+          onPress: () => {
+            const removed = onCancelQueued(entry.id);
+            if (removed) setInput(removed.content);
+          },
+        },
+        { text: 'Delete', style: 'destructive' as const, onPress: () => { onCancelQueued(entry.id); } },
+        { text: 'Close', style: 'cancel' as const },
+      ],
+    );
+  }, [queued, onRetryQueued, onCancelQueued]);
+
+  const handleRespondApproval = useCallback((request: ApprovalRequest, decision: ApprovalDecision, reason?: string) =>
+    onRespondApproval(session.thread_id, request.request_id, decision, reason),
+  [onRespondApproval, session.thread_id]);
+
   const handleApprove = useCallback(async (mode: PermissionMode) => {
     const retryContent = session.lastBlockedContent ?? lastUserMessage.current;
-    await onApprovePermission(session.thread_id, mode);
+    try {
+      await onApprovePermission(session.thread_id, mode);
+    } catch (e) {
+      Alert.alert('Could not approve', e instanceof Error ? e.message : String(e));
+      return;
+    }
     if (retryContent) {
       await onSendMessage(session.thread_id, retryContent, model);
     }
   }, [onApprovePermission, onSendMessage, session.thread_id, session.lastBlockedContent, model]);
 
-  // Auto-scroll: track last message count + streaming content to scroll on any update
-  const lastStreamingText = session.messages.length > 0
-    ? session.messages[session.messages.length - 1]?.streamingText
-    : undefined;
+  const handleChangePermission = useCallback((mode: PermissionMode) => {
+    onChangePermission(session.thread_id, mode).catch(e => {
+      Alert.alert('Could not change permission mode', e instanceof Error ? e.message : String(e));
+    });
+  }, [onChangePermission, session.thread_id]);
+
+  // One-tap rule for exactly what was blocked, then the same retry as approving a mode
+  const handleAllowExact = useCallback(async (_denial: PermissionDenial, rule: string) => {
+    if (!onAddRule) return;
+    const retryContent = session.lastBlockedContent ?? lastUserMessage.current;
+    try {
+      await onAddRule(session.thread_id, { effect: 'allow', rule, scope: 'session' });
+    } catch (e) {
+      Alert.alert('Could not add rule', e instanceof Error ? e.message : String(e));
+      return;
+    }
+    onDismissBanner(session.thread_id);
+    if (retryContent) await onSendMessage(session.thread_id, retryContent, model);
+  }, [onAddRule, onDismissBanner, onSendMessage, session.thread_id, session.lastBlockedContent, model]);
+
+  // Auto-scroll when a message or item is added. Streamed text growing the
+  // last bubble is handled by onContentSizeChange without an extra render pass.
   const lastItemCount = session.messages.length > 0
     ? session.messages[session.messages.length - 1]?.items?.length
     : undefined;
 
   useEffect(() => {
-    if (autoScrollEnabled.current && session.messages.length > 0) {
+    if (autoScrollEnabled.current && messages.length > 0) {
       setTimeout(() => flatListRef.current?.scrollToEnd({ animated: true }), 50);
     }
-  }, [session.messages.length, lastStreamingText, lastItemCount]);
+  }, [messages.length, lastItemCount]);
+
+  // Streaming replaces message objects on every flush but keeps their ids, so key the footers on the ids alone
+  const messageIds = session.messages.map(m => m.id).join('\n');
+
+  // A turn's footer goes under the last of its messages (`user-<turn_id>`, `turn-<turn_id>`)
+  const footers = useMemo(() => {
+    const turns = new Map(session.turns.map(t => [t.id, t]));
+    const byMessage = new Map<string, Turn>();
+    const lastMessage = new Map<string, string>();
+    for (const id of messageIds ? messageIds.split('\n') : []) {
+      const turn_id = id.slice(id.indexOf('-') + 1);
+      if (turns.has(turn_id)) lastMessage.set(turn_id, id);
+    }
+    lastMessage.forEach((message_id, turn_id) => byMessage.set(message_id, turns.get(turn_id)!));
+    return byMessage;
+  }, [session.turns, messageIds]);
+
+  const handleRetry = useCallback((turn: Turn) => {
+    onSendMessage(session.thread_id, turn.user_content, turn.model ?? model).catch(e => {
+      Alert.alert('Retry failed', e instanceof Error ? e.message : String(e));
+    });
+  }, [onSendMessage, session.thread_id, model]);
+
+  const canRetry = !readOnly && !isActive && !sending;
+
+  const fork = useCallback(async (up_to_turn_id?: string, resend?: { content: string; model?: string }) => {
+    if (!onFork) return;
+    setForking(true);
+    try {
+      await onFork(session.thread_id, up_to_turn_id, resend);
+      setEditing(null);
+    } catch (e) {
+      Alert.alert('Fork failed', e instanceof Error ? e.message : String(e));
+    } finally {
+      setForking(false);
+    }
+  }, [onFork, session.thread_id]);
+
+  // Editing a prompt forks from the turn before it, so the edited prompt replaces the original
+  const handleUserLongPress = useCallback((message: ChatMessage) => {
+    const index = session.turns.findIndex(t => `user-${t.id}` === message.id);
+    if (index < 0) return;
+    const turn = session.turns[index];
+    const previous = session.turns[index - 1];
+    Alert.alert('Fork conversation', 'Continue in a new thread with the history up to this prompt.', [
+      {
+        text: 'Edit and resend',
+        onPress: () => {
+          setEditText(message.content);
+          setEditing({ up_to_turn_id: previous?.id, model: turn.model });
+        },
+      },
+      ...(turn.status === 'active' ? [] : [{ text: 'Fork from here', onPress: () => { fork(turn.id); } }]),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  }, [session.turns, fork]);
+
+  // Scroll to the search hit once its message is in the list; it may arrive later with the transcript
+  useEffect(() => {
+    if (!focus || focusedRef.current === focus.message_id) return;
+    const index = messages.findIndex(m => m.id === focus.message_id);
+    if (index < 0) return;
+    focusedRef.current = focus.message_id;
+    autoScrollEnabled.current = false;
+    setTimeout(() => flatListRef.current?.scrollToIndex({ index, viewPosition: 0.3, animated: true }), 100);
+  }, [focus, messages]);
+
+  // The row handlers change with props that are rebuilt on every stream flush; reading them
+  // through a ref keeps renderItem stable, so only the message that changed re-renders
+  const rowHandlers = useRef({ handleQueuedPress, handleUserLongPress, handleRetry });
+  rowHandlers.current = { handleQueuedPress, handleUserLongPress, handleRetry };
+  const onQueuedPress = useCallback((message: ChatMessage) => rowHandlers.current.handleQueuedPress(message), []);
+  const onUserLongPress = useCallback((message: ChatMessage) => rowHandlers.current.handleUserLongPress(message), []);
+  const onRetry = useCallback((turn: Turn) => rowHandlers.current.handleRetry(turn), []);
+  const canFork = !!onFork && !readOnly;
+
+  const renderItem = useCallback(({ item }: { item: ChatMessage }) => {
+    const turn = footers.get(item.id);
+    return (
+      <>
+        <MessageBubble
+          message={item}
+          onPress={item.id.startsWith('outbox-') ? () => onQueuedPress(item) : undefined}
+          onLongPress={canFork && item.id.startsWith('user-') ? () => onUserLongPress(item) : undefined}
+          highlight={focus?.message_id === item.id ? focus.terms : undefined}
+        />
+        {turn && <TurnFooter turn={turn} onRetry={canRetry && turn.user_content ? onRetry : undefined} />}
+      </>
+    );
+  }, [footers, canRetry, canFork, focus, onQueuedPress, onUserLongPress, onRetry]);
 
   const shortId = session.thread_id.slice(0, 8);
   const modelLabel = model.replace('claude-', '').replace('-4-6', ' 4.6').replace('-4-5', ' 4.5');
@@ -112,24 +294,63 @@ export function ChatScreen({
           <Text style={styles.backText}>←</Text>
         </TouchableOpacity>
         <View style={styles.headerCenter}>
-          <Text style={styles.headerTitle}>#{shortId}</Text>
+          <View style={styles.headerTitleRow}>
+            <Text style={styles.headerTitle}>#{shortId}</Text>
+            {latencyMs != null && <Text style={styles.headerLatency}>{latencyMs}ms</Text>}
+          </View>
           <Text style={styles.headerCwd} numberOfLines={1}>{session.cwd}</Text>
         </View>
-        <TouchableOpacity style={styles.permBtn} onPress={() => setShowPermPicker(true)}>
+        <TouchableOpacity
+          style={styles.exportBtn}
+          onPress={() => setShowExport(true)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Text style={styles.exportText}>⇪</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.permBtn} onPress={() => setShowPermPicker(true)} disabled={readOnly}>
           <Text style={styles.permBtnText}>{session.permission_mode}</Text>
         </TouchableOpacity>
       </View>
 
+      {reconnecting && (
+        <View style={styles.reconnectBar}>
+          <Text style={styles.reconnectText}>◌ connection lost — reconnecting, new messages will be queued</Text>
+        </View>
+      )}
+
+      {offline && (
+        <View style={styles.reconnectBar}>
+          <Text style={styles.reconnectText}>○ offline — saved transcript, new messages will be queued</Text>
+        </View>
+      )}
+
+      {readOnly && (
+        <View style={styles.replayBar}>
+          <Text style={styles.replayText}>▶ replaying a recorded trace — read only</Text>
+        </View>
+      )}
+
       {/* Messages */}
       <FlatList
         ref={flatListRef}
-        data={session.messages}
+        data={messages}
         keyExtractor={item => item.id}
-        renderItem={({ item }) => <MessageBubble message={item} />}
+        renderItem={renderItem}
         contentContainerStyle={styles.messageList}
+        ListEmptyComponent={session.transcriptLoaded ? null : (
+          <Text style={styles.loadingText}>loading transcript...</Text>
+        )}
+        ListFooterComponent={approvals.length > 0 ? (
+          <>
+            {approvals.map(a => (
+              <ApprovalCard key={a.request_id} request={a} onRespond={readOnly ? undefined : handleRespondApproval} />
+            ))}
+          </>
+        ) : null}
         onContentSizeChange={() => {
           if (autoScrollEnabled.current) {
-            flatListRef.current?.scrollToEnd({ animated: true });
+            // Animating on every streamed chunk queues up overlapping scroll animations
+            flatListRef.current?.scrollToEnd({ animated: !isActive });
           }
         }}
         onScroll={(e) => {
@@ -138,56 +359,65 @@ export function ChatScreen({
           autoScrollEnabled.current = distFromBottom < 100;
         }}
         scrollEventThrottle={100}
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          // Rows further down haven't been measured yet; jump near the row, then aim again
+          flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+          setTimeout(() => flatListRef.current?.scrollToIndex({ index, viewPosition: 0.3, animated: true }), 100);
+        }}
       />
 
       {/* Permission Banner */}
       {hasBlockedAction && (
         <PermissionBanner
           denials={session.permissionDenials}
-          onApprove={handleApprove}
+          onApprove={readOnly ? () => {} : handleApprove}
+          onAllowExact={readOnly || !onAddRule ? undefined : handleAllowExact}
           onDismiss={() => onDismissBanner(session.thread_id)}
         />
       )}
 
       {/* Input Area */}
-      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
-        {isActive && <InputSpinner />}
-        <View style={[styles.inputArea, { paddingBottom: insets.bottom + 8 }]}>
-          <TouchableOpacity style={styles.modelBtn} onPress={() => setShowModelPicker(true)}>
-            <Text style={styles.modelBtnText}>{modelLabel}</Text>
-          </TouchableOpacity>
-          <TextInput
-            style={styles.input}
-            value={input}
-            onChangeText={setInput}
-            placeholder="Message..."
-            placeholderTextColor={theme.fgMuted}
-            multiline
-            maxLength={4000}
-            editable={!isActive}
-          />
-          {isActive ? (
-            <TouchableOpacity style={styles.interruptBtn} onPress={() => onInterrupt(session.thread_id)}>
-              <Text style={styles.interruptText}>■</Text>
-            </TouchableOpacity>
-          ) : (
-            <TouchableOpacity
-              style={[styles.sendBtn, (!input.trim() || sending) && styles.sendBtnDisabled]}
-              onPress={handleSend}
-              disabled={!input.trim() || sending}
-            >
-              <Text style={styles.sendText}>↑</Text>
+      {readOnly && isActive && <InputSpinner label={spinnerLabel} />}
+      {!readOnly && (
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          {isActive && <InputSpinner label={spinnerLabel} />}
+          <View style={[styles.inputArea, { paddingBottom: insets.bottom + 8 }]}>
+            <TouchableOpacity style={styles.modelBtn} onPress={() => setShowModelPicker(true)}>
+              <Text style={styles.modelBtnText}>{modelLabel}</Text>
             </TouchableOpacity>
-          )}
-        </View>
-      </KeyboardAvoidingView>
+            <TextInput
+              style={styles.input}
+              value={input}
+              onChangeText={setInput}
+              placeholder="Message..."
+              placeholderTextColor={theme.fgMuted}
+              multiline
+              maxLength={4000}
+              editable={!isActive}
+            />
+            {isActive ? (
+              <TouchableOpacity style={styles.interruptBtn} onPress={() => onInterrupt(session.thread_id)}>
+                <Text style={styles.interruptText}>■</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.sendBtn, (!input.trim() || sending) && styles.sendBtnDisabled]}
+                onPress={handleSend}
+                disabled={!input.trim() || sending}
+              >
+                <Text style={styles.sendText}>↑</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      )}
 
       {/* Model Picker Modal */}
       <Modal visible={showModelPicker} transparent animationType="fade">
         <TouchableOpacity style={styles.modalOverlay} onPress={() => setShowModelPicker(false)}>
           <View style={styles.picker}>
             <Text style={styles.pickerTitle}>Select Model</Text>
-            {MODELS.map(m => (
+            {models.map(m => (
               <TouchableOpacity
                 key={m}
                 style={[styles.pickerOption, model === m && styles.pickerOptionSelected]}
@@ -203,25 +433,73 @@ export function ChatScreen({
         </TouchableOpacity>
       </Modal>
 
-      {/* Permission Picker Modal */}
-      <Modal visible={showPermPicker} transparent animationType="fade">
-        <TouchableOpacity style={styles.modalOverlay} onPress={() => setShowPermPicker(false)}>
+      <ExportSheet session={session} visible={showExport} onClose={() => setShowExport(false)} />
+
+      {/* Edit and Resend Modal */}
+      <Modal visible={!!editing} transparent animationType="fade" onRequestClose={() => setEditing(null)}>
+        <KeyboardAvoidingView style={styles.modalOverlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
           <View style={styles.picker}>
-            <Text style={styles.pickerTitle}>Permission Mode</Text>
-            {PERMISSION_MODES.map(m => (
+            <Text style={styles.pickerTitle}>Edit and resend</Text>
+            <Text style={styles.editHint}>Sent in a new thread forked just before this prompt. This thread stays as it is.</Text>
+            <TextInput
+              style={styles.editInput}
+              value={editText}
+              onChangeText={setEditText}
+              placeholderTextColor={theme.fgMuted}
+              multiline
+              maxLength={4000}
+              autoFocus
+            />
+            <View style={styles.editActions}>
+              <TouchableOpacity style={styles.editCancelBtn} onPress={() => setEditing(null)}>
+                <Text style={styles.editCancelText}>Cancel</Text>
+              </TouchableOpacity>
               <TouchableOpacity
-                key={m}
-                style={[styles.pickerOption, session.permission_mode === m && styles.pickerOptionSelected]}
-                onPress={() => { onChangePermission(session.thread_id, m); setShowPermPicker(false); }}
+                style={[styles.editSendBtn, (!editText.trim() || forking) && styles.sendBtnDisabled]}
+                onPress={() => editing && fork(editing.up_to_turn_id, { content: editText.trim(), model: editing.model ?? model })}
+                disabled={!editText.trim() || forking}
               >
-                <View style={styles.pickerRow}>
-                  <View style={[styles.pickerRadio, session.permission_mode === m && styles.pickerRadioSelected]} />
-                  <Text style={styles.pickerOptionText}>{m}</Text>
-                </View>
+                <Text style={styles.editSendText}>{forking ? 'Forking...' : 'Fork and send'}</Text>
               </TouchableOpacity>
-            ))}
+            </View>
           </View>
-        </TouchableOpacity>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Permission Picker Modal */}
+      <Modal visible={showPermPicker} transparent animationType="fade" onRequestClose={() => setShowPermPicker(false)}>
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={() => setShowPermPicker(false)}>
+            <TouchableOpacity style={[styles.picker, styles.permPicker]} activeOpacity={1}>
+              <ScrollView keyboardShouldPersistTaps="handled">
+                <Text style={styles.pickerTitle}>Permission Mode</Text>
+                {PERMISSION_MODES.map(m => (
+                  <TouchableOpacity
+                    key={m}
+                    style={[styles.pickerOption, session.permission_mode === m && styles.pickerOptionSelected]}
+                    onPress={() => { handleChangePermission(m); setShowPermPicker(false); }}
+                  >
+                    <View style={styles.pickerRow}>
+                      <View style={[styles.pickerRadio, session.permission_mode === m && styles.pickerRadioSelected]} />
+                      <Text style={styles.pickerOptionText}>{m}</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+                <PermissionRulesEditor
+                  rules={rules}
+                  cwd={session.cwd}
+                  onAdd={onAddRule && (draft => onAddRule(session.thread_id, draft))}
+                  onRemove={onRemoveRule && (rule => onRemoveRule(session.thread_id, rule))}
+                />
+                {onShowAudit && (
+                  <TouchableOpacity style={styles.auditLink} onPress={() => { setShowPermPicker(false); onShowAudit(); }}>
+                    <Text style={styles.auditLinkText}>View audit log →</Text>
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </KeyboardAvoidingView>
       </Modal>
     </View>
   );
@@ -229,6 +507,7 @@ export function ChatScreen({
 
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: theme.bg },
+  flex: { flex: 1 },
 
   // Input spinner
   inputSpinner: {
@@ -255,16 +534,36 @@ const styles = StyleSheet.create({
   backText: { color: theme.accent, fontSize: 22, lineHeight: 28 },
   headerCenter: { flex: 1 },
   headerTitle: { color: theme.fg, fontSize: 15, fontWeight: '700', fontFamily: 'monospace' },
+  headerTitleRow: { flexDirection: 'row', alignItems: 'baseline', gap: 8 },
+  headerLatency: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
   headerCwd: { color: theme.fgDim, fontSize: 11, marginTop: 2 },
+  exportBtn: { marginRight: 12 },
+  exportText: { color: theme.accent, fontSize: 18 },
   permBtn: {
     backgroundColor: theme.surfaceAlt, borderRadius: 8,
     paddingHorizontal: 10, paddingVertical: 6,
     borderWidth: 1, borderColor: theme.border,
   },
   permBtnText: { color: theme.fgDim, fontSize: 11, fontWeight: '600' },
+  reconnectBar: {
+    backgroundColor: theme.yellowBg,
+    borderBottomWidth: 1, borderBottomColor: theme.yellow,
+    paddingHorizontal: 16, paddingVertical: 6,
+  },
+  reconnectText: { color: theme.yellow, fontSize: 11, fontFamily: 'monospace' },
+  replayBar: {
+    backgroundColor: theme.surfaceAlt,
+    borderBottomWidth: 1, borderBottomColor: theme.border,
+    paddingHorizontal: 16, paddingVertical: 6,
+  },
+  replayText: { color: theme.accent, fontSize: 11, fontFamily: 'monospace' },
 
   // Messages
   messageList: { paddingVertical: 16 },
+  loadingText: {
+    color: theme.fgDimmer, fontSize: 12, fontFamily: 'monospace',
+    textAlign: 'center', marginTop: 24,
+  },
 
   // Input area
   inputArea: {
@@ -310,6 +609,9 @@ const styles = StyleSheet.create({
     padding: 20, width: '82%',
     borderWidth: 1, borderColor: theme.border,
   },
+  permPicker: { maxHeight: '80%' },
+  auditLink: { marginTop: 16, alignSelf: 'flex-start' },
+  auditLinkText: { color: theme.accent, fontSize: 13, fontWeight: '600' },
   pickerTitle: { color: theme.fg, fontSize: 16, fontWeight: '700', marginBottom: 14 },
   pickerOption: { padding: 12, borderRadius: 10, marginBottom: 4 },
   pickerOptionSelected: { backgroundColor: theme.greenBg },
@@ -320,4 +622,16 @@ const styles = StyleSheet.create({
   },
   pickerRadioSelected: { borderColor: theme.green, backgroundColor: theme.green },
   pickerOptionText: { color: theme.fg, fontSize: 14 },
+  editHint: { color: theme.fgDimmer, fontSize: 11, marginBottom: 10 },
+  editInput: {
+    backgroundColor: theme.bg, borderColor: theme.border, borderWidth: 1,
+    borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10,
+    color: theme.fg, fontSize: 14, minHeight: 80, maxHeight: 220,
+    textAlignVertical: 'top',
+  },
+  editActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 14 },
+  editCancelBtn: { paddingHorizontal: 14, paddingVertical: 9 },
+  editCancelText: { color: theme.fgDim, fontSize: 14, fontWeight: '600' },
+  editSendBtn: { backgroundColor: theme.green, borderRadius: 10, paddingHorizontal: 18, paddingVertical: 9 },
+  editSendText: { color: '#fff', fontSize: 14, fontWeight: '700' },
 });
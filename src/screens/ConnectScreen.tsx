@@ -2,32 +2,85 @@ import { CameraView, useCameraPermissions } from "expo-camera";
 import React, { useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Modal,
+  ScrollView,
   StyleSheet,
   Text,
   TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
-import { ConnectionStatus } from "../types";
+import { ConnectionStatus, ProtocolDiagnostic, ServerConnection, ServerProfile } from "../types";
+import { DEFAULT_SERVER_URL, newProfileId } from "../hooks/useServerProfiles";
 import { theme, palette } from "../theme";
 
 interface Props {
-  status: ConnectionStatus;
-  lastError: string | null;
-  url: string;
-  onConnect: (url: string) => void;
-  onDisconnect: () => void;
+  connections: Record<string, ServerConnection>;
+  diagnostics: ProtocolDiagnostic[];
+  profiles: ServerProfile[];
+  activeProfileId: string | null;
+  onConnect: (profile: ServerProfile) => void;
+  onSaveProfile: (profile: ServerProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onDisconnect: (id: string) => void;
+  onShowSessions?: () => void;
+  onShowTrace: () => void;
+  onShowStorage: () => void;
+  onClearDiagnostics: () => void;
+}
+
+const STATUS_COLOR: Record<ConnectionStatus, string> = {
+  disconnected: theme.fgDimmer,
+  connecting: theme.yellow,
+  connected: theme.green,
+  reconnecting: theme.yellow,
+  error: theme.red,
+};
+
+const STATUS_LABEL: Record<ConnectionStatus, string> = {
+  disconnected: "Disconnected",
+  connecting: "Connecting...",
+  connected: "Connected",
+  reconnecting: "Reconnecting...",
+  error: "Connection error",
+};
+
+function timeAgo(ts: number): string {
+  const secs = Math.max(0, Math.round((Date.now() - ts) / 1000));
+  if (secs < 60) return "just now";
+  const mins = Math.round(secs / 60);
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.round(mins / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+function defaultProfileName(url: string): string {
+  try {
+    return new URL(url).hostname || url;
+  } catch {
+    return url;
+  }
 }
 
 export function ConnectScreen({
-  status,
-  lastError,
-  url,
+  connections,
+  diagnostics,
+  profiles,
+  activeProfileId,
   onConnect,
+  onSaveProfile,
+  onDeleteProfile,
   onDisconnect,
+  onShowSessions,
+  onShowTrace,
+  onShowStorage,
+  onClearDiagnostics,
 }: Props) {
-  const [inputUrl, setInputUrl] = useState(url);
+  const [selectedId, setSelectedId] = useState<string | null>(activeProfileId);
+  const [name, setName] = useState("");
+  const [inputUrl, setInputUrl] = useState(DEFAULT_SERVER_URL);
   const [pairKey, setPairKey] = useState("");
   const [scanning, setScanning] = useState(false);
   const [permission, requestPermission] = useCameraPermissions();
@@ -38,6 +91,18 @@ export function ConnectScreen({
     if (!scanning) scannedRef.current = false;
   }, [scanning]);
 
+  // Fill the form from the selected profile once profiles have loaded
+  const selected = profiles.find((p) => p.id === selectedId) ?? null;
+  useEffect(() => {
+    if (selectedId === null && activeProfileId) setSelectedId(activeProfileId);
+  }, [activeProfileId]);
+  useEffect(() => {
+    if (!selected) return;
+    setName(selected.name);
+    setInputUrl(selected.url);
+    setPairKey(selected.pairKey);
+  }, [selected?.id]);
+
   const handleScanPress = async () => {
     if (!permission?.granted) {
       const result = await requestPermission();
@@ -46,11 +111,51 @@ export function ConnectScreen({
     setScanning(true);
   };
 
-  /** Build the connect URL, appending ?key= if the user entered one manually */
-  const buildConnectUrl = (base: string, key: string): string => {
-    if (!key) return base;
-    const sep = base.includes("?") ? "&" : "?";
-    return `${base}${sep}key=${key}`;
+  /** Profile built from the form: updates the selected one, or one with the same URL, else a new one */
+  const buildProfile = (url: string, key: string): ServerProfile => {
+    const base = selected ?? profiles.find((p) => p.url === url);
+    return {
+      ...base,
+      id: base?.id ?? newProfileId(),
+      name: name.trim() || base?.name || defaultProfileName(url),
+      url,
+      pairKey: key,
+    };
+  };
+
+  const selectProfile = (profile: ServerProfile | null) => {
+    setSelectedId(profile?.id ?? null);
+    if (!profile) {
+      setName("");
+      setInputUrl(DEFAULT_SERVER_URL);
+      setPairKey("");
+    }
+  };
+
+  const handleDeletePress = (profile: ServerProfile) => {
+    Alert.alert("Delete Server", `${profile.name}\n${profile.url}`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          if (profile.id === selectedId) selectProfile(null);
+          onDeleteProfile(profile.id);
+        },
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    const profile = buildProfile(inputUrl.trim(), pairKey);
+    onSaveProfile(profile);
+    setSelectedId(profile.id);
+  };
+
+  const handleConnect = (url: string, key: string) => {
+    const profile = buildProfile(url, key);
+    setSelectedId(profile.id);
+    onConnect(profile);
   };
 
   const handleBarcodeScanned = ({ data }: { data: string }) => {
@@ -59,41 +164,48 @@ export function ConnectScreen({
     scannedRef.current = true;
 
     // Extract key from QR URL so it shows in the pair key field
+    let cleanUrl = data;
+    let qrKey = "";
     try {
       const qrUrl = new URL(data);
-      const qrKey = qrUrl.searchParams.get("key") ?? "";
+      qrKey = qrUrl.searchParams.get("key") ?? "";
       // Strip the key param from the display URL
       qrUrl.searchParams.delete("key");
-      const cleanUrl = qrUrl.toString();
-      setInputUrl(cleanUrl);
-      setPairKey(qrKey);
-      setScanning(false);
-      setTimeout(() => onConnect(data), 300);
-    } catch {
-      setInputUrl(data);
-      setScanning(false);
-      setTimeout(() => onConnect(data), 300);
-    }
+      cleanUrl = qrUrl.toString();
+    } catch {}
+    setInputUrl(cleanUrl);
+    setPairKey(qrKey);
+    setScanning(false);
+    setTimeout(() => handleConnect(cleanUrl, qrKey), 300);
   };
 
-  const canEdit = status !== "connecting" && status !== "connected";
-
-  const statusColor = {
-    disconnected: theme.fgDimmer,
-    connecting: theme.yellow,
-    connected: theme.green,
-    error: theme.red,
-  }[status];
+  // Status and error of the selected server's connection
+  const connection = selectedId ? connections[selectedId] : undefined;
+  const status: ConnectionStatus = connection?.status ?? "disconnected";
+  const lastError = connection?.lastError ?? null;
+  const canEdit = status !== "connecting" && status !== "connected" && status !== "reconnecting";
+  const statusColor = STATUS_COLOR[status];
+  const statusLabel = STATUS_LABEL[status];
+  const serverDiagnostics = diagnostics.filter((d) => d.server_id === selectedId);
 
-  const statusLabel = {
-    disconnected: "Disconnected",
-    connecting: "Connecting...",
-    connected: "Connected",
-    error: "Connection error",
-  }[status];
+  const handleDiagnosticsPress = () => {
+    const recent = serverDiagnostics
+      .slice(-5)
+      .reverse()
+      .map((d) => `${d.kind}${d.method ? ` ${d.method}` : ""}\n${d.error}`)
+      .join("\n\n");
+    Alert.alert(`${serverDiagnostics.length} rejected messages`, recent, [
+      { text: "Clear", style: "destructive", onPress: onClearDiagnostics },
+      { text: "Close", style: "cancel" },
+    ]);
+  };
 
   return (
-    <View style={styles.container}>
+    <ScrollView
+      style={styles.scroll}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
       <Text style={styles.title}>clode</Text>
 
       <View style={styles.statusRow}>
@@ -110,6 +222,22 @@ export function ConnectScreen({
         )}
       </View>
 
+      {connection?.serverInfo && status === "connected" && (
+        <Text style={styles.serverInfo}>
+          {connection.serverInfo.name} {connection.serverInfo.version} · protocol v
+          {connection.serverInfo.protocol_version}
+        </Text>
+      )}
+
+      {serverDiagnostics.length > 0 && (
+        <TouchableOpacity style={styles.diagnostics} onPress={handleDiagnosticsPress}>
+          <Text style={styles.diagnosticsText}>
+            ⚠ {serverDiagnostics.length} server message
+            {serverDiagnostics.length !== 1 ? "s" : ""} rejected — tap for details
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Error message */}
       {lastError && (
         <View style={styles.errorBox}>
@@ -117,6 +245,79 @@ export function ConnectScreen({
         </View>
       )}
 
+      {/* Saved servers */}
+      {profiles.length > 0 && (
+        <View style={styles.profileList}>
+          <View style={styles.profileListHeader}>
+            <Text style={styles.label}>saved servers</Text>
+            {selected && (
+              <TouchableOpacity onPress={() => selectProfile(null)}>
+                <Text style={styles.newProfileText}>+ new</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {profiles.map((profile) => (
+            <TouchableOpacity
+              key={profile.id}
+              style={[
+                styles.profileRow,
+                profile.id === selectedId && styles.profileRowSelected,
+              ]}
+              onPress={() => selectProfile(profile)}
+              activeOpacity={0.8}
+            >
+              <View
+                style={[
+                  styles.statusDot,
+                  {
+                    backgroundColor:
+                      STATUS_COLOR[connections[profile.id]?.status ?? "disconnected"],
+                  },
+                ]}
+              />
+              <View style={styles.profileInfo}>
+                <Text style={styles.profileName} numberOfLines={1}>
+                  {profile.name}
+                </Text>
+                <Text style={styles.profileUrl} numberOfLines={1}>
+                  {profile.url}
+                </Text>
+                {profile.lastError ? (
+                  <Text style={styles.profileError} numberOfLines={1}>
+                    {profile.lastError}
+                  </Text>
+                ) : profile.lastConnectedAt ? (
+                  <Text style={styles.profileMeta}>
+                    connected {timeAgo(profile.lastConnectedAt)}
+                  </Text>
+                ) : null}
+              </View>
+              {!connections[profile.id] && (
+                <TouchableOpacity
+                  style={styles.profileDelete}
+                  onPress={() => handleDeletePress(profile)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Text style={styles.profileDeleteText}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Profile name */}
+      <Text style={styles.label}>name</Text>
+      <TextInput
+        style={[styles.urlInput, styles.nameInput]}
+        value={name}
+        onChangeText={setName}
+        placeholder={defaultProfileName(inputUrl)}
+        placeholderTextColor={theme.fgMuted}
+        autoCorrect={false}
+        editable={canEdit}
+      />
+
       {/* URL + QR row */}
       <Text style={styles.label}>server</Text>
       <View style={styles.urlRow}>
@@ -124,7 +325,7 @@ export function ConnectScreen({
           style={styles.urlInput}
           value={inputUrl}
           onChangeText={setInputUrl}
-          placeholder="ws://localhost:3284"
+          placeholder={DEFAULT_SERVER_URL}
           placeholderTextColor={theme.fgMuted}
           autoCapitalize="none"
           autoCorrect={false}
@@ -159,26 +360,55 @@ export function ConnectScreen({
         code
       </Text>
 
-      {status === "connected" ? (
+      {selectedId && connections[selectedId] && (status === "connected" || status === "reconnecting") ? (
         <TouchableOpacity
           style={[styles.button, styles.disconnectButton]}
-          onPress={onDisconnect}
+          onPress={() => onDisconnect(selectedId)}
         >
           <Text style={styles.buttonText}>Disconnect</Text>
         </TouchableOpacity>
       ) : (
-        <TouchableOpacity
-          style={[
-            styles.button,
-            status === "connecting" && styles.buttonDisabled,
-          ]}
-          onPress={() => onConnect(buildConnectUrl(inputUrl, pairKey))}
-          disabled={status === "connecting"}
-        >
-          <Text style={styles.buttonText}>Connect</Text>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.saveButton,
+              !canEdit && styles.buttonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={!canEdit || !inputUrl.trim()}
+          >
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.connectButton,
+              status === "connecting" && styles.buttonDisabled,
+            ]}
+            onPress={() => handleConnect(inputUrl.trim(), pairKey)}
+            disabled={status === "connecting" || !inputUrl.trim()}
+          >
+            <Text style={styles.buttonText}>Connect</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {onShowSessions && (
+        <TouchableOpacity style={styles.sessionsLink} onPress={onShowSessions}>
+          <Text style={styles.sessionsLinkText}>sessions →</Text>
         </TouchableOpacity>
       )}
 
+      <View style={styles.toolLinks}>
+        <TouchableOpacity onPress={onShowTrace}>
+          <Text style={styles.toolLinkText}>protocol trace</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onShowStorage}>
+          <Text style={styles.toolLinkText}>local data</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* QR Scanner Modal */}
       <Modal
         visible={scanning}
@@ -219,7 +449,7 @@ export function ConnectScreen({
           </View>
         </View>
       </Modal>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -228,9 +458,9 @@ const CORNER_SIZE = 20;
 const CORNER_WIDTH = 3;
 
 const styles = StyleSheet.create({
+  scroll: { flex: 1, backgroundColor: theme.bg },
   container: {
-    flex: 1,
-    backgroundColor: theme.bg,
+    flexGrow: 1,
     justifyContent: "center",
     padding: 28,
   },
@@ -251,6 +481,25 @@ const styles = StyleSheet.create({
   statusDot: { width: 7, height: 7, borderRadius: 4, marginRight: 6 },
   statusText: { fontSize: 12, fontWeight: "600", fontFamily: "monospace" },
 
+  serverInfo: {
+    color: theme.fgDimmer,
+    fontSize: 11,
+    fontFamily: "monospace",
+    textAlign: "center",
+    marginTop: -20,
+    marginBottom: 20,
+  },
+
+  diagnostics: {
+    backgroundColor: theme.yellowBg,
+    borderWidth: 1,
+    borderColor: theme.yellow,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 16,
+  },
+  diagnosticsText: { color: theme.yellow, fontSize: 11, fontFamily: "monospace" },
+
   errorBox: {
     backgroundColor: theme.redBg,
     borderWidth: 1,
@@ -274,6 +523,55 @@ const styles = StyleSheet.create({
     textTransform: "lowercase",
   },
 
+  // Saved servers
+  profileList: { marginBottom: 18, gap: 6 },
+  profileListHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  newProfileText: {
+    color: theme.link,
+    fontSize: 11,
+    fontFamily: "monospace",
+    marginBottom: 6,
+  },
+  profileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.surface,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 10,
+  },
+  profileRowSelected: {
+    borderColor: theme.green,
+    backgroundColor: theme.greenBg,
+  },
+  profileInfo: { flex: 1 },
+  profileName: { color: theme.fg, fontSize: 13, fontWeight: "700" },
+  profileUrl: {
+    color: theme.fgDim,
+    fontSize: 11,
+    fontFamily: "monospace",
+    marginTop: 2,
+  },
+  profileMeta: { color: theme.fgDimmer, fontSize: 10, marginTop: 2 },
+  profileError: { color: theme.red, fontSize: 10, marginTop: 2 },
+  profileDelete: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: theme.redBg,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  profileDeleteText: { color: theme.red, fontSize: 10, fontWeight: "700" },
+  nameInput: { flex: 0, marginBottom: 14 },
+
   // URL row
   urlRow: {
     flexDirection: "row",
@@ -344,6 +642,19 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   buttonDisabled: { opacity: 0.5 },
+  buttonRow: { flexDirection: "row", gap: 10 },
+  saveButton: {
+    flex: 1,
+    backgroundColor: theme.surface,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  saveButtonText: { color: theme.fg, fontWeight: "700", fontSize: 14 },
+  connectButton: { flex: 2 },
+  sessionsLink: { alignItems: "center", marginTop: 16 },
+  sessionsLinkText: { color: theme.link, fontSize: 13, fontFamily: "monospace" },
+  toolLinks: { flexDirection: "row", justifyContent: "center", gap: 16, marginTop: 12 },
+  toolLinkText: { color: theme.fgDimmer, fontSize: 11, fontFamily: "monospace" },
   disconnectButton: { backgroundColor: theme.red },
   buttonText: { color: "#fff", fontWeight: "700", fontSize: 14 },
 
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { FlatList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SNIPPET_CLOSE, SNIPPET_OPEN, SearchKind, SearchResult, searchTerms, searchTranscripts } from '../store';
+import { theme } from '../theme';
+
+const SEARCH_DELAY_MS = 250;
+
+const KIND_META: Record<SearchKind, { label: string; color: string }> = {
+  user: { label: 'you', color: theme.accent },
+  assistant: { label: 'claude', color: theme.fg },
+  tool: { label: 'tool', color: theme.synFunction },
+  result: { label: 'output', color: theme.synString },
+};
+
+interface Props {
+  onOpenResult: (result: SearchResult, terms: string[]) => void;
+  onBack: () => void;
+}
+
+/** Render a snippet with the index's match markers turned into highlighted spans. */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(new RegExp(`(${SNIPPET_OPEN}[^${SNIPPET_CLOSE}]*${SNIPPET_CLOSE})`));
+  return (
+    <Text style={styles.snippet} numberOfLines={3}>
+      {parts.map((p, i) => p.startsWith(SNIPPET_OPEN)
+        ? <Text key={i} style={styles.snippetMatch}>{p.slice(1, -1)}</Text>
+        : p.replace(/\s+/g, ' '))}
+    </Text>
+  );
+}
+
+export function SearchScreen({ onOpenResult, onBack }: Props) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (searchTerms(query).length === 0) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+    let stale = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchTranscripts(query)
+        .then(found => { if (!stale) { setResults(found); setError(null); } })
+        .catch(e => { if (!stale) setError(e instanceof Error ? e.message : String(e)); })
+        .finally(() => { if (!stale) setSearching(false); });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const empty = error
+    ? `Search failed: ${error}`
+    : searchTerms(query).length === 0
+      ? 'Search prompts, replies, commands, file paths and tool output across every saved session.'
+      : searching ? 'searching...' : 'No matches';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.backText}>←</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={styles.input}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search transcripts"
+          placeholderTextColor={theme.fgMuted}
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={r => `${r.thread_id}/${r.message_id}/${r.item_id ?? ''}`}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={<Text style={styles.empty}>{empty}</Text>}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => onOpenResult(item, searchTerms(query))}
+            activeOpacity={0.8}
+          >
+            <View style={styles.rowHeader}>
+              <Text style={[styles.kind, { color: KIND_META[item.kind].color }]}>{KIND_META[item.kind].label}</Text>
+              <Text style={styles.thread}>#{item.thread_id.slice(0, 8)}</Text>
+              <Text style={styles.cwd} numberOfLines={1}>{item.cwd}</Text>
+            </View>
+            <Snippet text={item.snippet} />
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.bg },
+
+  // Header
+  header: {
+    flexDirection: 'row', alignItems: 'center',
+    paddingHorizontal: 16, paddingVertical: 10,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1, borderBottomColor: theme.border,
+  },
+  backBtn: { marginRight: 14 },
+  backText: { color: theme.accent, fontSize: 22, lineHeight: 28 },
+  input: {
+    flex: 1,
+    backgroundColor: theme.bg, borderColor: theme.border, borderWidth: 1,
+    borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8,
+    color: theme.fg, fontSize: 14,
+  },
+
+  // Results
+  list: { padding: 12, paddingBottom: 24 },
+  empty: {
+    color: theme.fgDimmer, fontSize: 12, fontFamily: 'monospace',
+    textAlign: 'center', marginTop: 24, paddingHorizontal: 24,
+  },
+  row: {
+    backgroundColor: theme.surface, borderRadius: 10,
+    borderWidth: 1, borderColor: theme.border,
+    padding: 10, marginBottom: 6, gap: 4,
+  },
+  rowHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  kind: { fontSize: 10, fontWeight: '700', fontFamily: 'monospace', textTransform: 'uppercase' },
+  thread: { color: theme.fgDim, fontSize: 11, fontFamily: 'monospace' },
+  cwd: { flex: 1, color: theme.fgDimmer, fontSize: 11 },
+  snippet: { color: theme.fgDim, fontSize: 13, lineHeight: 19 },
+  snippetMatch: { color: theme.yellow, backgroundColor: theme.yellowBg, fontWeight: '700' },
+});
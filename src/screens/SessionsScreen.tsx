@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import {
   Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View,
 } from 'react-native';
-import { PermissionMode, Session } from '../types';
+import { ConnectionStatus, PermissionMode, Session } from '../types';
 import { theme } from '../theme';
 
 const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'bypassPermissions', 'dontAsk'];
@@ -13,23 +13,61 @@ const PERMISSION_LABELS: Record<PermissionMode, string> = {
   dontAsk: "Don't Ask (skip prompts, log only)",
 };
 
+interface ServerEntry {
+  server_id: string;
+  name: string;
+  status: ConnectionStatus;
+  latencyMs: number | null;
+  homeDir?: string;
+}
+
 interface Props {
   sessions: Session[];
-  onCreateSession: (cwd: string, mode: PermissionMode) => Promise<void>;
+  servers: ServerEntry[];
+  onCreateSession: (server_id: string, cwd: string, mode: PermissionMode) => Promise<void>;
   onOpenSession: (session: Session) => void;
   onDeleteSession: (thread_id: string) => Promise<void>;
+  onSearch: () => void;
 }
 
-export function SessionsScreen({ sessions, onCreateSession, onOpenSession, onDeleteSession }: Props) {
+const MAX_FORK_INDENT = 3;
+
+/** Depth-first order with each fork right after the session it was forked from. */
+function forkTree(sessions: Session[]): { session: Session; depth: number }[] {
+  const ids = new Set(sessions.map(s => s.thread_id));
+  const children = new Map<string, Session[]>();
+  for (const s of sessions) {
+    if (s.parent_thread_id && ids.has(s.parent_thread_id)) {
+      children.set(s.parent_thread_id, [...children.get(s.parent_thread_id) ?? [], s]);
+    }
+  }
+  const out: { session: Session; depth: number }[] = [];
+  const seen = new Set<string>();
+  const visit = (session: Session, depth: number) => {
+    if (seen.has(session.thread_id)) return;
+    seen.add(session.thread_id);
+    out.push({ session, depth });
+    children.get(session.thread_id)?.forEach(child => visit(child, depth + 1));
+  };
+  sessions.filter(s => !s.parent_thread_id || !ids.has(s.parent_thread_id)).forEach(s => visit(s, 0));
+  return out;
+}
+
+export function SessionsScreen({ sessions, servers, onCreateSession, onOpenSession, onDeleteSession, onSearch }: Props) {
   const [showModal, setShowModal] = useState(false);
   const [cwd, setCwd] = useState('~/Desktop');
   const [permMode, setPermMode] = useState<PermissionMode>('default');
+  const [serverId, setServerId] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
 
+  const connectedServers = servers.filter(s => s.status === 'connected');
+  const targetServer = connectedServers.find(s => s.server_id === serverId) ?? connectedServers[0];
+
   const handleCreate = async () => {
+    if (!targetServer) return;
     setCreating(true);
     try {
-      await onCreateSession(cwd, permMode);
+      await onCreateSession(targetServer.server_id, cwd, permMode);
       setShowModal(false);
     } catch (e) {
       Alert.alert('Error', String(e));
@@ -54,9 +92,66 @@ export function SessionsScreen({ sessions, onCreateSession, onOpenSession, onDel
     );
   };
 
+  const forkCounts = new Map<string, number>();
+  for (const s of sessions) {
+    if (s.parent_thread_id) forkCounts.set(s.parent_thread_id, (forkCounts.get(s.parent_thread_id) ?? 0) + 1);
+  }
+
+  const renderCard = ({ session, depth }: { session: Session; depth: number }) => (
+    <TouchableOpacity
+      key={session.thread_id}
+      style={[styles.card, depth > 0 && { marginLeft: Math.min(depth, MAX_FORK_INDENT) * 16 }]}
+      onPress={() => onOpenSession(session)}
+      activeOpacity={0.8}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.threadId}>#{session.thread_id.slice(0, 8)}</Text>
+        <View style={styles.cardHeaderRight}>
+          <View style={[styles.badge, { backgroundColor: permBadgeColor(session.permission_mode) }]}>
+            <Text style={styles.badgeText}>{session.permission_mode}</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.deleteBtn}
+            onPress={() => handleDeletePress(session)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Text style={styles.deleteBtnText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      <Text style={styles.cwd} numberOfLines={1}>{session.cwd}</Text>
+      <View style={styles.cardFooter}>
+        <Text style={styles.msgCount}>
+          {session.transcriptLoaded
+            ? `${session.messages.length} messages`
+            : `${session.turns.length} turns`}
+        </Text>
+        {!!session.parent_thread_id && (
+          <Text style={styles.forkText}>⑂ fork of #{session.parent_thread_id.slice(0, 8)}</Text>
+        )}
+        {forkCounts.has(session.thread_id) && (
+          <Text style={styles.forkText}>
+            ⑂ {forkCounts.get(session.thread_id)} fork{forkCounts.get(session.thread_id) === 1 ? '' : 's'}
+          </Text>
+        )}
+        {session.active_turn_id && (
+          <View style={styles.activeBadge}>
+            <View style={styles.activeDot} />
+            <Text style={styles.activeBadgeText}>Active</Text>
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
   return (
     <View style={styles.container}>
       <ScrollView contentContainerStyle={styles.list}>
+        {sessions.length > 0 && (
+          <TouchableOpacity style={styles.searchBar} onPress={onSearch} activeOpacity={0.8}>
+            <Text style={styles.searchBarText}>⌕ Search transcripts</Text>
+          </TouchableOpacity>
+        )}
         {sessions.length === 0 && (
           <View style={styles.empty}>
             <Text style={styles.emptyIcon}>💬</Text>
@@ -64,40 +159,23 @@ export function SessionsScreen({ sessions, onCreateSession, onOpenSession, onDel
             <Text style={styles.emptyHint}>Create a new session to start chatting</Text>
           </View>
         )}
-        {sessions.map(session => (
-          <TouchableOpacity
-            key={session.thread_id}
-            style={styles.card}
-            onPress={() => onOpenSession(session)}
-            activeOpacity={0.8}
-          >
-            <View style={styles.cardHeader}>
-              <Text style={styles.threadId}>#{session.thread_id.slice(0, 8)}</Text>
-              <View style={styles.cardHeaderRight}>
-                <View style={[styles.badge, { backgroundColor: permBadgeColor(session.permission_mode) }]}>
-                  <Text style={styles.badgeText}>{session.permission_mode}</Text>
-                </View>
-                <TouchableOpacity
-                  style={styles.deleteBtn}
-                  onPress={() => handleDeletePress(session)}
-                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-                >
-                  <Text style={styles.deleteBtnText}>✕</Text>
-                </TouchableOpacity>
+        {sessions.length > 0 && servers.map(server => {
+          const serverSessions = sessions.filter(s => s.server_id === server.server_id);
+          return (
+            <View key={server.server_id} style={styles.group}>
+              <View style={styles.groupHeader}>
+                <View style={[styles.groupDot, { backgroundColor: serverStatusColor(server.status) }]} />
+                <Text style={styles.groupName} numberOfLines={1}>{server.name}</Text>
+                {server.latencyMs !== null && <Text style={styles.groupLatency}>{server.latencyMs}ms</Text>}
+                <Text style={styles.groupCount}>{serverSessions.length}</Text>
               </View>
-            </View>
-            <Text style={styles.cwd} numberOfLines={1}>{session.cwd}</Text>
-            <View style={styles.cardFooter}>
-              <Text style={styles.msgCount}>{session.messages.length} messages</Text>
-              {session.active_turn_id && (
-                <View style={styles.activeBadge}>
-                  <View style={styles.activeDot} />
-                  <Text style={styles.activeBadgeText}>Active</Text>
-                </View>
+              {serverSessions.length === 0 && (
+                <Text style={styles.groupEmpty}>No sessions on this server</Text>
               )}
+              {forkTree(serverSessions).map(renderCard)}
             </View>
-          </TouchableOpacity>
-        ))}
+          );
+        })}
       </ScrollView>
 
       <TouchableOpacity style={styles.fab} onPress={() => setShowModal(true)}>
@@ -119,6 +197,27 @@ export function SessionsScreen({ sessions, onCreateSession, onOpenSession, onDel
               autoCapitalize="none"
               autoCorrect={false}
             />
+            {targetServer?.homeDir && (
+              <Text style={styles.inputHint}>~ is {targetServer.homeDir} on {targetServer.name}</Text>
+            )}
+
+            {connectedServers.length > 1 && (
+              <>
+                <Text style={styles.inputLabel}>Server</Text>
+                {connectedServers.map(server => (
+                  <TouchableOpacity
+                    key={server.server_id}
+                    style={[styles.modeOption, targetServer === server && styles.modeOptionSelected]}
+                    onPress={() => setServerId(server.server_id)}
+                  >
+                    <View style={styles.modeRow}>
+                      <View style={[styles.radio, targetServer === server && styles.radioSelected]} />
+                      <Text style={styles.modeText}>{server.name}</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
 
             <Text style={styles.inputLabel}>Permission Mode</Text>
             {PERMISSION_MODES.map(mode => (
@@ -139,9 +238,9 @@ export function SessionsScreen({ sessions, onCreateSession, onOpenSession, onDel
                 <Text style={styles.cancelText}>Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.createBtn, creating && styles.btnDisabled]}
+                style={[styles.createBtn, (creating || !targetServer) && styles.btnDisabled]}
                 onPress={handleCreate}
-                disabled={creating}
+                disabled={creating || !targetServer}
               >
                 <Text style={styles.createText}>{creating ? 'Creating...' : 'Create'}</Text>
               </TouchableOpacity>
@@ -162,14 +261,38 @@ function permBadgeColor(mode: PermissionMode) {
   }[mode];
 }
 
+function serverStatusColor(status: ConnectionStatus) {
+  return {
+    disconnected: theme.fgDimmer,
+    connecting: theme.yellow,
+    connected: theme.green,
+    reconnecting: theme.yellow,
+    error: theme.red,
+  }[status];
+}
+
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: theme.bg },
   list: { padding: 16, paddingBottom: 96 },
+  searchBar: {
+    backgroundColor: theme.surface, borderRadius: 10,
+    borderWidth: 1, borderColor: theme.border,
+    paddingHorizontal: 12, paddingVertical: 10, marginBottom: 12,
+  },
+  searchBarText: { color: theme.fgDimmer, fontSize: 14 },
   empty: { alignItems: 'center', paddingTop: 80 },
   emptyIcon: { fontSize: 48, marginBottom: 16 },
   emptyText: { color: theme.fg, fontSize: 18, fontWeight: '600', marginBottom: 8 },
   emptyHint: { color: theme.fgDim, fontSize: 14 },
 
+  group: { marginBottom: 8 },
+  groupHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 10 },
+  groupDot: { width: 7, height: 7, borderRadius: 4 },
+  groupName: { color: theme.fgDim, fontSize: 13, fontWeight: '700', flex: 1 },
+  groupLatency: { color: theme.fgDimmer, fontSize: 11, fontFamily: 'monospace' },
+  groupCount: { color: theme.fgDimmer, fontSize: 12, fontFamily: 'monospace' },
+  groupEmpty: { color: theme.fgDimmer, fontSize: 12, marginBottom: 12 },
+
   card: {
     backgroundColor: theme.surface, borderColor: theme.border, borderWidth: 1,
     borderRadius: 14, padding: 16, marginBottom: 12,
@@ -191,6 +314,7 @@ const styles = StyleSheet.create({
   cwd: { color: theme.fg, fontSize: 14, marginBottom: 8 },
   cardFooter: { flexDirection: 'row', alignItems: 'center', gap: 12 },
   msgCount: { color: theme.fgDim, fontSize: 12 },
+  forkText: { color: theme.purple, fontSize: 12, fontFamily: 'monospace' },
   activeBadge: { flexDirection: 'row', alignItems: 'center', gap: 5 },
   activeDot: { width: 7, height: 7, borderRadius: 4, backgroundColor: theme.green },
   activeBadgeText: { color: theme.green, fontSize: 12, fontWeight: '600' },
@@ -209,6 +333,7 @@ const styles = StyleSheet.create({
   },
   modalTitle: { color: theme.fg, fontSize: 20, fontWeight: '700', marginBottom: 20 },
   inputLabel: { color: theme.fgDim, fontSize: 13, marginBottom: 8, marginTop: 16 },
+  inputHint: { color: theme.fgDimmer, fontSize: 11, fontFamily: 'monospace', marginTop: 6 },
   input: {
     backgroundColor: theme.bg, borderColor: theme.border, borderWidth: 1,
     borderRadius: 10, padding: 13, color: theme.fg, fontSize: 14,
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AUDIT_RETENTION_OPTIONS, RETENTION_OPTIONS } from '../hooks/useSessionStore';
+import { StoreStats, storeStats } from '../store';
+import { theme } from '../theme';
+
+interface Props {
+  retentionDays: number | null;
+  onChangeRetention: (days: number | null) => Promise<number>; // resolves to the number of sessions pruned
+  onClearData: () => Promise<void>;
+  auditRetentionDays: number | null;
+  onChangeAuditRetention: (days: number | null) => Promise<number>; // resolves to the number of entries pruned
+  onClearAuditLog: () => Promise<void>;
+  onBack: () => void;
+}
+
+function retentionLabel(days: number | null): string {
+  return days === null ? 'Forever' : `${days} days`;
+}
+
+export function StorageScreen({
+  retentionDays, onChangeRetention, onClearData,
+  auditRetentionDays, onChangeAuditRetention, onClearAuditLog, onBack,
+}: Props) {
+  const [stats, setStats] = useState<StoreStats | null>(null);
+
+  const refresh = useCallback(() => {
+    storeStats()
+      .then(setStats)
+      .catch(e => console.warn('[Store] Failed to read stats:', e));
+  }, []);
+  useEffect(refresh, [refresh]);
+
+  const handleRetention = async (days: number | null) => {
+    try {
+      const removed = await onChangeRetention(days);
+      if (removed > 0) Alert.alert('Old sessions removed', `${removed} session${removed === 1 ? '' : 's'} older than ${days} days deleted from this device.`);
+    } catch (e) {
+      Alert.alert('Could not change retention', e instanceof Error ? e.message : String(e));
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleAuditRetention = async (days: number | null) => {
+    try {
+      const removed = await onChangeAuditRetention(days);
+      if (removed > 0) Alert.alert('Old audit entries removed', `${removed} entr${removed === 1 ? 'y' : 'ies'} older than ${days} days deleted from this device.`);
+    } catch (e) {
+      Alert.alert('Could not change audit retention', e instanceof Error ? e.message : String(e));
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear local data',
+      'Delete every saved session and transcript from this device? The audit log is kept. Threads on your servers are not affected.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onClearData();
+            } catch (e) {
+              Alert.alert('Could not clear local data', e instanceof Error ? e.message : String(e));
+            } finally {
+              refresh();
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleClearAudit = () => {
+    Alert.alert(
+      'Clear audit log',
+      'Delete every audit entry from this device? Exported copies are not affected.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onClearAuditLog();
+            } catch (e) {
+              Alert.alert('Could not clear the audit log', e instanceof Error ? e.message : String(e));
+            } finally {
+              refresh();
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.backText}>←</Text>
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Local data</Text>
+          <Text style={styles.headerMeta}>sessions saved on this device</Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.body}>
+        <Text style={styles.sectionTitle}>Stored</Text>
+        <View style={styles.card}>
+          {stats ? (
+            <>
+              <Text style={styles.stat}>{stats.sessions} sessions</Text>
+              <Text style={styles.stat}>{stats.messages} messages</Text>
+              <Text style={styles.stat}>{stats.items} items</Text>
+              <Text style={styles.stat}>{stats.audit} audit entries</Text>
+            </>
+          ) : (
+            <Text style={styles.statDim}>reading...</Text>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Keep idle sessions for</Text>
+        <View style={styles.options}>
+          {RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={String(days)}
+              style={[styles.option, retentionDays === days && styles.optionSelected]}
+              onPress={() => handleRetention(days)}
+            >
+              <Text style={[styles.optionText, retentionDays === days && styles.optionTextSelected]}>
+                {retentionLabel(days)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.hint}>Sessions with no activity for longer than this are deleted on launch.</Text>
+
+        <Text style={styles.sectionTitle}>Keep audit entries for</Text>
+        <View style={styles.options}>
+          {AUDIT_RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={String(days)}
+              style={[styles.option, auditRetentionDays === days && styles.optionSelected]}
+              onPress={() => handleAuditRetention(days)}
+            >
+              <Text style={[styles.optionText, auditRetentionDays === days && styles.optionTextSelected]}>
+                {retentionLabel(days)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.hint}>Entries older than this are deleted on launch, whether or not their session is still stored.</Text>
+
+        <TouchableOpacity style={styles.clearBtn} onPress={handleClear}>
+          <Text style={styles.clearText}>Clear local data</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.clearBtn, styles.clearAuditBtn]} onPress={handleClearAudit}>
+          <Text style={styles.clearText}>Clear audit log</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.bg },
+
+  // Header
+  header: {
+    flexDirection: 'row', alignItems: 'center',
+    paddingHorizontal: 16, paddingVertical: 12,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1, borderBottomColor: theme.border,
+  },
+  backBtn: { marginRight: 14 },
+  backText: { color: theme.accent, fontSize: 22, lineHeight: 28 },
+  headerCenter: { flex: 1 },
+  headerTitle: { color: theme.fg, fontSize: 15, fontWeight: '700' },
+  headerMeta: { color: theme.fgDimmer, fontSize: 11, fontFamily: 'monospace', marginTop: 2 },
+
+  // Body
+  body: { padding: 16 },
+  sectionTitle: {
+    color: theme.fgDim, fontSize: 11, fontWeight: '700', textTransform: 'uppercase',
+    letterSpacing: 0.5, marginBottom: 8, marginTop: 12,
+  },
+  card: {
+    backgroundColor: theme.surface, borderRadius: 10,
+    borderWidth: 1, borderColor: theme.border,
+    padding: 12, gap: 4,
+  },
+  stat: { color: theme.fg, fontSize: 13, fontFamily: 'monospace' },
+  statDim: { color: theme.fgDimmer, fontSize: 13, fontFamily: 'monospace' },
+  options: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  option: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 12, paddingVertical: 7,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  optionSelected: { backgroundColor: theme.greenBg, borderColor: theme.green },
+  optionText: { color: theme.fgDim, fontSize: 12, fontWeight: '600' },
+  optionTextSelected: { color: theme.green },
+  hint: { color: theme.fgDimmer, fontSize: 11, marginTop: 8 },
+  clearBtn: {
+    marginTop: 28, alignItems: 'center',
+    backgroundColor: theme.redBg, borderRadius: 10,
+    borderWidth: 1, borderColor: theme.red,
+    paddingVertical: 12,
+  },
+  clearAuditBtn: { marginTop: 10 },
+  clearText: { color: theme.red, fontSize: 14, fontWeight: '700' },
+});
@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert, FlatList, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View,
+} from 'react-native';
+import { TraceFrame } from '../types';
+import { filterTrace, parseTrace, shareTrace } from '../trace';
+import { getRenderCounts, resetRenderCounts } from '../hooks/useRenderCount';
+import { theme } from '../theme';
+
+interface Props {
+  getTrace: () => TraceFrame[];
+  onClearTrace: () => void;
+  onReplay: (frames: TraceFrame[]) => void;
+  onBack: () => void;
+}
+
+function formatTime(at: number): string {
+  const d = new Date(at);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`;
+}
+
+function isError(frame: unknown): boolean {
+  return !!frame && typeof frame === 'object' && 'error' in frame;
+}
+
+export function TraceInspectorScreen({ getTrace, onClearTrace, onReplay, onBack }: Props) {
+  const [liveFrames, setLiveFrames] = useState<TraceFrame[]>(() => getTrace());
+  const [loadedFrames, setLoadedFrames] = useState<TraceFrame[] | null>(null);
+  const [methodFilter, setMethodFilter] = useState('');
+  const [threadFilter, setThreadFilter] = useState('');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [showLoad, setShowLoad] = useState(false);
+  const [pasted, setPasted] = useState('');
+
+  const refresh = useCallback(() => setLiveFrames(getTrace()), [getTrace]);
+  useEffect(refresh, [refresh]);
+
+  const source = loadedFrames ?? liveFrames;
+  const frames = useMemo(
+    () => filterTrace(source, { method: methodFilter, thread_id: threadFilter }),
+    [source, methodFilter, threadFilter],
+  );
+
+  const toggle = (seq: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(seq)) next.delete(seq); else next.add(seq);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      await shareTrace(frames);
+    } catch (e) {
+      Alert.alert('Export failed', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleLoad = () => {
+    try {
+      setLoadedFrames(parseTrace(pasted));
+      setExpanded(new Set());
+      setShowLoad(false);
+      setPasted('');
+    } catch (e) {
+      Alert.alert('Not a trace', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleClear = () => {
+    if (loadedFrames) {
+      setLoadedFrames(null);
+      return;
+    }
+    Alert.alert('Clear trace', 'Discard every recorded frame?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => { onClearTrace(); refresh(); } },
+    ]);
+  };
+
+  const handleRenderCounts = () => {
+    const { since, counts } = getRenderCounts();
+    const lines = Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([label, n]) => `${label}: ${n}`);
+    Alert.alert(
+      `Renders in the last ${Math.round((Date.now() - since) / 1000)}s`,
+      lines.length > 0 ? lines.join('\n') : 'Nothing rendered yet.',
+      [
+        { text: 'Reset', onPress: resetRenderCounts },
+        { text: 'Close', style: 'cancel' },
+      ],
+    );
+  };
+
+  const handleReplay = () => {
+    if (!frames.some(f => f.direction === 'in' && f.thread_id)) {
+      Alert.alert('Nothing to replay', 'None of these frames belong to a thread.');
+      return;
+    }
+    onReplay(frames);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.backText}>←</Text>
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Protocol trace</Text>
+          <Text style={styles.headerMeta}>
+            {loadedFrames ? 'loaded file' : 'live'} · {frames.length}/{source.length} frames
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        <TextInput
+          style={styles.filterInput}
+          value={methodFilter}
+          onChangeText={setMethodFilter}
+          placeholder="method"
+          placeholderTextColor={theme.fgMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TextInput
+          style={styles.filterInput}
+          value={threadFilter}
+          onChangeText={setThreadFilter}
+          placeholder="thread_id"
+          placeholderTextColor={theme.fgMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.actions}>
+        {!loadedFrames && (
+          <TouchableOpacity style={styles.actionBtn} onPress={refresh}>
+            <Text style={styles.actionText}>Refresh</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.actionBtn} onPress={() => setShowLoad(true)}>
+          <Text style={styles.actionText}>Load</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionBtn} onPress={handleExport} disabled={frames.length === 0}>
+          <Text style={styles.actionText}>Export</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionBtn} onPress={handleReplay} disabled={frames.length === 0}>
+          <Text style={[styles.actionText, styles.actionTextAccent]}>▶ Replay</Text>
+        </TouchableOpacity>
+        {__DEV__ && (
+          <TouchableOpacity style={styles.actionBtn} onPress={handleRenderCounts}>
+            <Text style={styles.actionText}>Renders</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.actionBtn} onPress={handleClear}>
+          <Text style={[styles.actionText, styles.actionTextDanger]}>{loadedFrames ? 'Close file' : 'Clear'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={frames}
+        keyExtractor={f => String(f.seq)}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.empty}>No frames{source.length > 0 ? ' match the filters' : ' recorded yet'}</Text>}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.row} onPress={() => toggle(item.seq)} activeOpacity={0.8}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.rowTime}>{formatTime(item.at)}</Text>
+              <Text style={[styles.rowDir, item.direction === 'in' ? styles.rowDirIn : styles.rowDirOut]}>
+                {item.direction === 'in' ? '↓' : '↑'}
+              </Text>
+              <Text style={[styles.rowMethod, isError(item.frame) && styles.rowMethodError]} numberOfLines={1}>
+                {item.method ?? '(unknown)'}
+              </Text>
+              {item.thread_id && <Text style={styles.rowThread}>#{item.thread_id.slice(0, 8)}</Text>}
+            </View>
+            {expanded.has(item.seq) && (
+              <ScrollView horizontal style={styles.rowBody}>
+                <Text style={styles.rowJson} selectable>
+                  {typeof item.frame === 'string' ? item.frame : JSON.stringify(item.frame, null, 2)}
+                </Text>
+              </ScrollView>
+            )}
+          </TouchableOpacity>
+        )}
+      />
+
+      <Modal visible={showLoad} transparent animationType="fade" onRequestClose={() => setShowLoad(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modal}>
+            <Text style={styles.modalTitle}>Load trace</Text>
+            <Text style={styles.modalHint}>Paste the contents of an exported trace file.</Text>
+            <TextInput
+              style={styles.pasteInput}
+              value={pasted}
+              onChangeText={setPasted}
+              placeholder='{ "version": 1, "frames": [...] }'
+              placeholderTextColor={theme.fgMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancel} onPress={() => setShowLoad(false)}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalLoad} onPress={handleLoad} disabled={!pasted.trim()}>
+                <Text style={styles.modalLoadText}>Load</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: theme.bg },
+
+  // Header
+  header: {
+    flexDirection: 'row', alignItems: 'center',
+    paddingHorizontal: 16, paddingVertical: 12,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1, borderBottomColor: theme.border,
+  },
+  backBtn: { marginRight: 14 },
+  backText: { color: theme.accent, fontSize: 22, lineHeight: 28 },
+  headerCenter: { flex: 1 },
+  headerTitle: { color: theme.fg, fontSize: 15, fontWeight: '700' },
+  headerMeta: { color: theme.fgDimmer, fontSize: 11, fontFamily: 'monospace', marginTop: 2 },
+
+  // Filters and actions
+  filters: { flexDirection: 'row', gap: 8, paddingHorizontal: 12, paddingTop: 10 },
+  filterInput: {
+    flex: 1,
+    backgroundColor: theme.surface, borderColor: theme.border, borderWidth: 1,
+    borderRadius: 8, paddingHorizontal: 10, paddingVertical: 7,
+    color: theme.fg, fontSize: 12, fontFamily: 'monospace',
+  },
+  actions: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, paddingHorizontal: 12, paddingVertical: 10 },
+  actionBtn: {
+    backgroundColor: theme.surfaceAlt, borderRadius: 8,
+    paddingHorizontal: 10, paddingVertical: 5,
+    borderWidth: 1, borderColor: theme.border,
+  },
+  actionText: { color: theme.fgDim, fontSize: 12, fontWeight: '600' },
+  actionTextAccent: { color: theme.green },
+  actionTextDanger: { color: theme.red },
+
+  // Frames
+  list: { paddingHorizontal: 12, paddingBottom: 24 },
+  empty: { color: theme.fgDimmer, fontSize: 12, fontFamily: 'monospace', textAlign: 'center', marginTop: 24 },
+  row: {
+    backgroundColor: theme.surface, borderRadius: 8,
+    borderWidth: 1, borderColor: theme.border,
+    paddingHorizontal: 10, paddingVertical: 7, marginBottom: 4,
+  },
+  rowHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  rowTime: { color: theme.fgDimmer, fontSize: 10, fontFamily: 'monospace' },
+  rowDir: { fontSize: 12, fontWeight: '700', fontFamily: 'monospace' },
+  rowDirIn: { color: theme.green },
+  rowDirOut: { color: theme.accent },
+  rowMethod: { flex: 1, color: theme.fg, fontSize: 12, fontFamily: 'monospace' },
+  rowMethodError: { color: theme.red },
+  rowThread: { color: theme.fgDim, fontSize: 10, fontFamily: 'monospace' },
+  rowBody: { marginTop: 6, borderTopWidth: 1, borderTopColor: theme.border, paddingTop: 6 },
+  rowJson: { color: theme.fgDim, fontSize: 11, fontFamily: 'monospace', lineHeight: 15 },
+
+  // Load modal
+  modalOverlay: { flex: 1, backgroundColor: theme.overlay, justifyContent: 'center', alignItems: 'center' },
+  modal: {
+    backgroundColor: theme.surface, borderRadius: 18,
+    padding: 20, width: '88%',
+    borderWidth: 1, borderColor: theme.border,
+  },
+  modalTitle: { color: theme.fg, fontSize: 16, fontWeight: '700', marginBottom: 4 },
+  modalHint: { color: theme.fgDimmer, fontSize: 12, marginBottom: 12 },
+  pasteInput: {
+    backgroundColor: theme.bg, borderColor: theme.border, borderWidth: 1,
+    borderRadius: 10, padding: 10, height: 180, textAlignVertical: 'top',
+    color: theme.fg, fontSize: 11, fontFamily: 'monospace',
+  },
+  modalButtons: { flexDirection: 'row', gap: 10, marginTop: 14 },
+  modalCancel: {
+    flex: 1, paddingVertical: 11, borderRadius: 10, alignItems: 'center',
+    backgroundColor: theme.surfaceAlt, borderWidth: 1, borderColor: theme.border,
+  },
+  modalCancelText: { color: theme.fgDim, fontWeight: '600' },
+  modalLoad: { flex: 1, paddingVertical: 11, borderRadius: 10, alignItems: 'center', backgroundColor: theme.green },
+  modalLoadText: { color: '#fff', fontWeight: '700' },
+});
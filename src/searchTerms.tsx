@@ -0,0 +1,29 @@
+import React from 'react';
+import { StyleSheet, Text } from 'react-native';
+import { palette, theme } from './theme';
+
+/** Escape a string for use inside a RegExp. */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termsPattern(terms: string[]): RegExp {
+  return new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+}
+
+/** Whether any search term occurs in the text, ignoring case. */
+export function hasMatch(text: string, terms?: string[]): boolean {
+  return !!terms && terms.length > 0 && termsPattern(terms).test(text);
+}
+
+/** Text with every occurrence of the search terms wrapped in a highlight; for use inside a <Text>. */
+export function highlighted(text: string, terms?: string[]): React.ReactNode {
+  if (!terms || terms.length === 0) return text;
+  // split() with a capture group puts the matches at the odd indexes
+  return text.split(termsPattern(terms)).map((part, i) =>
+    i % 2 === 1 ? <Text key={i} style={styles.searchMatch}>{part}</Text> : part);
+}
+
+const styles = StyleSheet.create({
+  searchMatch: { color: palette.sumiInk0, backgroundColor: theme.yellow },
+});
@@ -0,0 +1,17 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Write `contents` to a cache file and open the share sheet for it. The file
+ * is `name` with a timestamp before the extension, so repeated exports don't clash.
+ */
+export async function shareFile(name: string, mimeType: string, contents: string, dialogTitle?: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const dot = name.lastIndexOf('.');
+  const stamped = dot > 0 ? `${name.slice(0, dot)}-${stamp}${name.slice(dot)}` : `${name}-${stamp}`;
+  const file = new File(Paths.cache, stamped);
+  file.create({ overwrite: true });
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle });
+}
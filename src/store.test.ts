@@ -0,0 +1,76 @@
+import { diffSessions } from './store';
+import { ChatMessage, Session, StoredItem, Turn } from './types';
+
+// diffSessions never touches the database; keep the native module out of the test
+jest.mock('expo-sqlite', () => ({}));
+
+const item = (id: string, text = id): StoredItem => ({ id, created_at: 0, item: { type: 'text', text } });
+const turn = (id: string, status: Turn['status'] = 'completed'): Turn => ({
+  id, thread_id: 'th1', status, user_content: 'hi', messages: [],
+});
+
+function session(patch: Partial<Session> = {}): Session {
+  return {
+    thread_id: 'th1', server_id: 'srv', created_at: 0, cwd: '/p', permission_mode: 'default',
+    turns: [], messages: [], ...patch,
+  };
+}
+
+describe('diffSessions', () => {
+  it('writes a new session in full', () => {
+    const user: ChatMessage = { id: 'u1', role: 'user', content: 'hi' };
+    const reply: ChatMessage = { id: 'turn-t1', role: 'assistant', content: '', items: [item('i1'), item('i2')] };
+    const s = session({ turns: [turn('t1')], messages: [user, reply] });
+    const [write] = diffSessions([], [s]);
+    expect(write.session).toBe(s);
+    expect(write.turns.map(t => t.id)).toEqual(['t1']);
+    expect(write.messages).toEqual([{ message: user, position: 0 }, { message: reply, position: 1 }]);
+    expect(write.items.map(i => [i.item.id, i.message_id, i.position])).toEqual([['i1', 'turn-t1', 0], ['i2', 'turn-t1', 1]]);
+  });
+
+  it('skips sessions that are the same object as before', () => {
+    const s = session({ messages: [{ id: 'u1', role: 'user', content: 'hi' }] });
+    expect(diffSessions([s], [s])).toEqual([]);
+  });
+
+  it('writes only the turns, messages and items that changed', () => {
+    const first = item('i1');
+    const oldTurn = turn('t1');
+    const user: ChatMessage = { id: 'u1', role: 'user', content: 'hi' };
+    const before = session({
+      turns: [oldTurn],
+      messages: [user, { id: 'turn-t1', role: 'assistant', content: '', items: [first] }],
+    });
+    const grown: ChatMessage = { id: 'turn-t1', role: 'assistant', content: '', items: [first, item('i2')] };
+    const after = { ...before, turns: [oldTurn, turn('t2', 'active')], messages: [user, grown] };
+
+    const [write] = diffSessions([before], [after]);
+    expect(write.turns.map(t => t.id)).toEqual(['t2']);
+    expect(write.messages).toEqual([{ message: grown, position: 1 }]);
+    expect(write.items.map(i => i.item.id)).toEqual(['i2']);
+  });
+
+  it('leaves out partial and unconfirmed messages', () => {
+    const before = session();
+    const after = session({
+      messages: [
+        { id: 'u1', role: 'user', content: 'queued', delivery: 'pending' },
+        { id: 'u2', role: 'user', content: 'failed', delivery: 'failed' },
+        { id: 'streaming-t1', role: 'assistant', content: '', streamingItems: [], isStreaming: true, items: [] },
+        { id: 'u3', role: 'user', content: 'sent', delivery: 'sent' },
+      ],
+    });
+    const [write] = diffSessions([before], [after]);
+    expect(write.messages.map(m => [m.message.id, m.position])).toEqual([['u3', 3]]);
+  });
+
+  it('writes a session whose settings changed even with no new content', () => {
+    const before = session();
+    expect(diffSessions([before], [{ ...before, permission_mode: 'acceptEdits' }])).toHaveLength(1);
+    expect(diffSessions([before], [{ ...before, hasPermissionDenial: true }])).toEqual([]);
+  });
+
+  it('never deletes: sessions missing from the new state produce no writes', () => {
+    expect(diffSessions([session()], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,520 @@
+import * as SQLite from 'expo-sqlite';
+import { itemValidator } from './protocol';
+import {
+  AuditEntry, AuditKind, AuditOutcome, ChatMessage, Item, MessageRole, PermissionMode, Session, StoredItem, Turn, TurnStatus,
+} from './types';
+
+const DB_NAME = 'clode.db';
+
+const SCHEMA_V1 = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    thread_id TEXT PRIMARY KEY NOT NULL,
+    server_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    cwd TEXT NOT NULL,
+    permission_mode TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS turns (
+    thread_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    user_content TEXT NOT NULL,
+    model TEXT,
+    started_at INTEGER,
+    ended_at INTEGER,
+    error TEXT,
+    PRIMARY KEY (thread_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    thread_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    PRIMARY KEY (thread_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS items (
+    thread_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (thread_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS items_by_message ON items (thread_id, message_id, position);
+`;
+
+// Searchable text lives in search_docs, one row per user message or item
+// (item_id is '' for a message's own content); the FTS index reads from it.
+const SCHEMA_V2 = `
+  CREATE TABLE IF NOT EXISTS search_docs (
+    thread_id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    body TEXT NOT NULL,
+    UNIQUE (thread_id, message_id, item_id)
+  );
+  CREATE VIRTUAL TABLE IF NOT EXISTS search USING fts5(
+    body, content = 'search_docs', content_rowid = 'rowid', tokenize = 'porter unicode61'
+  );
+  CREATE TRIGGER IF NOT EXISTS search_docs_ai AFTER INSERT ON search_docs BEGIN
+    INSERT INTO search (rowid, body) VALUES (new.rowid, new.body);
+  END;
+  CREATE TRIGGER IF NOT EXISTS search_docs_ad AFTER DELETE ON search_docs BEGIN
+    INSERT INTO search (search, rowid, body) VALUES ('delete', old.rowid, old.body);
+  END;
+`;
+
+const SCHEMA_V3 = `
+  ALTER TABLE sessions ADD COLUMN parent_thread_id TEXT;
+  ALTER TABLE sessions ADD COLUMN forked_from_turn_id TEXT;
+`;
+
+// Tool entries are unique per call, so a result seen again after reconnecting isn't logged twice
+const SCHEMA_V4 = `
+  CREATE TABLE IF NOT EXISTS audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    tool_name TEXT,
+    tool_use_id TEXT,
+    tool_input TEXT,
+    detail TEXT
+  );
+  CREATE INDEX IF NOT EXISTS audit_thread ON audit (thread_id, at);
+  CREATE UNIQUE INDEX IF NOT EXISTS audit_tool_call ON audit (thread_id, tool_use_id) WHERE kind = 'tool';
+`;
+
+/** Schema steps in order; a database at user_version N has run the first N. */
+const MIGRATIONS: ((db: SQLite.SQLiteDatabase) => Promise<void>)[] = [
+  db => db.execAsync(SCHEMA_V1),
+  async db => {
+    await db.execAsync(SCHEMA_V2);
+    await reindex(db);
+  },
+  db => db.execAsync(SCHEMA_V3),
+  db => db.execAsync(SCHEMA_V4),
+];
+
+/** The chat data of a session. The audit log is kept apart: it has its own retention and clear. */
+const TABLES = ['search_docs', 'items', 'messages', 'turns', 'sessions'] as const;
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Open the database on first use, creating the schema. A failed open is retried on the next call. */
+function open(): Promise<SQLite.SQLiteDatabase> {
+  dbPromise ??= (async () => {
+    const db = await SQLite.openDatabaseAsync(DB_NAME);
+    await db.execAsync('PRAGMA journal_mode = WAL;');
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    for (let version = row?.user_version ?? 0; version < MIGRATIONS.length; version++) {
+      await db.withTransactionAsync(async () => {
+        await MIGRATIONS[version](db);
+        await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+      });
+    }
+    return db;
+  })().catch(e => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+/** Run store operations one at a time, in the order they were requested. */
+function serial<T>(task: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> {
+  const run = queue.then(() => open()).then(task);
+  queue = run.catch(() => {});
+  return run;
+}
+
+// ─── Search index ────────────────────────────────────────────────────────────
+
+export type SearchKind = 'user' | 'assistant' | 'tool' | 'result';
+
+const MAX_DOC_LENGTH = 20_000; // long tool output is mostly noise past this point
+
+/** Every string inside a tool input, so commands, paths and patterns are all searchable. */
+function strings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') out.push(value);
+  else if (Array.isArray(value)) value.forEach(v => strings(v, out));
+  else if (value && typeof value === 'object') Object.values(value).forEach(v => strings(v, out));
+  return out;
+}
+
+/** The text an item is found by; thinking is left out. */
+function searchableText(item: Item): { kind: SearchKind; body: string } | null {
+  switch (item.type) {
+    case 'text': return { kind: 'assistant', body: item.text };
+    case 'tool_call': return { kind: 'tool', body: [item.name, ...strings(item.input)].join('\n') };
+    case 'file_change': return { kind: 'tool', body: [item.path, item.old_path].filter(Boolean).join('\n') };
+    case 'tool_result': return { kind: 'result', body: item.content };
+    case 'command_output': return { kind: 'result', body: [item.command, item.stdout, item.stderr].filter(Boolean).join('\n') };
+    default: return null;
+  }
+}
+
+async function indexDoc(db: SQLite.SQLiteDatabase, thread_id: string, message_id: string, item_id: string, kind: SearchKind, body: string) {
+  await db.runAsync(
+    'DELETE FROM search_docs WHERE thread_id = ? AND message_id = ? AND item_id = ?',
+    thread_id, message_id, item_id,
+  );
+  if (!body.trim()) return;
+  await db.runAsync(
+    'INSERT INTO search_docs (thread_id, message_id, item_id, kind, body) VALUES (?, ?, ?, ?, ?)',
+    thread_id, message_id, item_id, kind, body.slice(0, MAX_DOC_LENGTH),
+  );
+}
+
+/** Build the search index from scratch out of the stored transcripts. */
+async function reindex(db: SQLite.SQLiteDatabase) {
+  await db.runAsync('DELETE FROM search_docs');
+  const turns = await db.getAllAsync<{ thread_id: string; id: string; user_content: string }>(
+    'SELECT thread_id, id, user_content FROM turns',
+  );
+  for (const t of turns) await indexDoc(db, t.thread_id, `user-${t.id}`, '', 'user', t.user_content);
+  const messages = await db.getAllAsync<{ thread_id: string; id: string; content: string }>(
+    "SELECT thread_id, id, content FROM messages WHERE role = 'user'",
+  );
+  for (const m of messages) await indexDoc(db, m.thread_id, m.id, '', 'user', m.content);
+  const items = await db.getAllAsync<{ thread_id: string; id: string; message_id: string; data: string }>(
+    'SELECT thread_id, id, message_id, data FROM items',
+  );
+  for (const i of items) {
+    let doc: ReturnType<typeof searchableText> = null;
+    try { doc = searchableText(JSON.parse(i.data)); } catch { /* unreadable; leave it out */ }
+    if (doc) await indexDoc(db, i.thread_id, i.message_id, i.id, doc.kind, doc.body);
+  }
+}
+
+/** Words of a search query, as matched by the index and highlighted in results. */
+export function searchTerms(query: string): string[] {
+  return query.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export interface SearchResult {
+  thread_id: string;
+  message_id: string;
+  item_id?: string;
+  kind: SearchKind;
+  snippet: string; // matches are wrapped in SNIPPET_OPEN / SNIPPET_CLOSE
+  cwd: string;
+  server_id: string;
+}
+
+export const SNIPPET_OPEN = '\u0002';
+export const SNIPPET_CLOSE = '\u0003';
+
+/** Best matches first. Every word must match, each as a prefix, so results narrow while typing. */
+export function searchTranscripts(query: string, limit = 50): Promise<SearchResult[]> {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return Promise.resolve([]);
+  const match = terms.map(t => `"${t}"*`).join(' ');
+  return serial(async db => {
+    const rows = await db.getAllAsync<Omit<SearchResult, 'item_id'> & { item_id: string }>(
+      `SELECT d.thread_id, d.message_id, d.item_id, d.kind, s.cwd, s.server_id,
+              snippet(search, 0, char(2), char(3), '…', 16) AS snippet
+       FROM search
+       JOIN search_docs d ON d.rowid = search.rowid
+       JOIN sessions s ON s.thread_id = d.thread_id
+       WHERE search MATCH ?
+       ORDER BY bm25(search)
+       LIMIT ?`,
+      match, limit,
+    );
+    return rows.map(r => ({ ...r, item_id: r.item_id || undefined }));
+  });
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────────────
+
+/** The parts of one session that changed since the last write. */
+export interface SessionWrite {
+  session: Session;
+  turns: Turn[];
+  messages: { message: ChatMessage; position: number }[];
+  items: { item: StoredItem; message_id: string; position: number }[];
+}
+
+/** Whether a message is worth keeping: partial and unconfirmed messages are rebuilt from the server. */
+function persistable(m: ChatMessage): boolean {
+  if (m.delivery === 'sending' || m.delivery === 'pending' || m.delivery === 'failed') return false;
+  return !!m.content || (m.items?.length ?? 0) > 0;
+}
+
+/**
+ * Work out what to write by comparing two snapshots of session state. State is
+ * never mutated in place, so anything that is still the same object is unchanged.
+ * Nothing is deleted here; sessions and messages that disappear from state stay
+ * on the device until they are deleted explicitly or age out.
+ */
+export function diffSessions(prev: Session[], next: Session[]): SessionWrite[] {
+  const before = new Map(prev.map(s => [s.thread_id, s]));
+  const writes: SessionWrite[] = [];
+  for (const session of next) {
+    const old = before.get(session.thread_id);
+    if (old === session) continue;
+    const oldTurns = new Set(old?.turns);
+    const oldMessages = new Map(old?.messages.map(m => [m.id, m]));
+    const write: SessionWrite = {
+      session,
+      turns: session.turns.filter(t => !oldTurns.has(t)),
+      messages: [],
+      items: [],
+    };
+    session.messages.forEach((message, position) => {
+      const oldMessage = oldMessages.get(message.id);
+      if (oldMessage === message || !persistable(message)) return;
+      write.messages.push({ message, position });
+      const oldItems = new Set(oldMessage?.items);
+      message.items?.forEach((item, i) => {
+        if (!oldItems.has(item)) write.items.push({ item, message_id: message.id, position: i });
+      });
+    });
+    const fieldsChanged = !old || old.cwd !== session.cwd || old.permission_mode !== session.permission_mode
+      || old.server_id !== session.server_id;
+    if (fieldsChanged || write.turns.length > 0 || write.messages.length > 0) writes.push(write);
+  }
+  return writes;
+}
+
+export function writeSessions(writes: SessionWrite[]): Promise<void> {
+  if (writes.length === 0) return Promise.resolve();
+  return serial(db => db.withTransactionAsync(async () => {
+    const now = Date.now();
+    for (const { session: s, turns, messages, items } of writes) {
+      await db.runAsync(
+        `INSERT INTO sessions
+           (thread_id, server_id, created_at, updated_at, cwd, permission_mode, parent_thread_id, forked_from_turn_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (thread_id) DO UPDATE SET
+           server_id = excluded.server_id, updated_at = excluded.updated_at,
+           cwd = excluded.cwd, permission_mode = excluded.permission_mode,
+           parent_thread_id = COALESCE(excluded.parent_thread_id, parent_thread_id),
+           forked_from_turn_id = COALESCE(excluded.forked_from_turn_id, forked_from_turn_id)`,
+        s.thread_id, s.server_id, s.created_at, now, s.cwd, s.permission_mode,
+        s.parent_thread_id ?? null, s.forked_from_turn_id ?? null,
+      );
+      for (const t of turns) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO turns (thread_id, id, status, user_content, model, started_at, ended_at, error)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          s.thread_id, t.id, t.status, t.user_content, t.model ?? null,
+          t.started_at ?? null, t.ended_at ?? null, t.error ?? null,
+        );
+        // Prompts of threads whose transcript was never opened are still findable
+        await indexDoc(db, s.thread_id, `user-${t.id}`, '', 'user', t.user_content);
+      }
+      for (const { message: m, position } of messages) {
+        await db.runAsync(
+          'INSERT OR REPLACE INTO messages (thread_id, id, position, role, content) VALUES (?, ?, ?, ?, ?)',
+          s.thread_id, m.id, position, m.role, m.content,
+        );
+        if (m.role === 'user') await indexDoc(db, s.thread_id, m.id, '', 'user', m.content);
+      }
+      for (const { item, message_id, position } of items) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO items (thread_id, id, message_id, position, created_at, type, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          s.thread_id, item.id, message_id, position, item.created_at, item.item.type, JSON.stringify(item.item),
+        );
+        const doc = searchableText(item.item);
+        if (doc) await indexDoc(db, s.thread_id, message_id, item.id, doc.kind, doc.body);
+      }
+    }
+  }));
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+interface SessionRow {
+  thread_id: string; server_id: string; created_at: number; cwd: string; permission_mode: string;
+  parent_thread_id: string | null; forked_from_turn_id: string | null;
+}
+interface TurnRow {
+  thread_id: string; id: string; status: string; user_content: string;
+  model: string | null; started_at: number | null; ended_at: number | null; error: string | null;
+}
+interface MessageRow { thread_id: string; id: string; role: string; content: string }
+interface ItemRow { thread_id: string; id: string; message_id: string; created_at: number; data: string }
+
+/** Group rows by a key, keeping their order. */
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    const group = groups.get(k);
+    if (group) group.push(row); else groups.set(k, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Load stored sessions (every one, or just `thread_id`) with their turns and
+ * transcript. Sessions come back with `transcriptLoaded` unset, so opening one
+ * while its server is connected still fetches the server's current view.
+ */
+export function loadSessions(thread_id?: string): Promise<Session[]> {
+  const where = thread_id === undefined ? '' : 'WHERE thread_id = ?';
+  const params = thread_id === undefined ? [] : [thread_id];
+  return serial(async db => {
+    const [sessions, turns, messages, items] = await Promise.all([
+      db.getAllAsync<SessionRow>(`SELECT * FROM sessions ${where} ORDER BY created_at`, params),
+      db.getAllAsync<TurnRow>(`SELECT * FROM turns ${where} ORDER BY thread_id, COALESCE(started_at, 0)`, params),
+      db.getAllAsync<MessageRow>(`SELECT * FROM messages ${where} ORDER BY thread_id, position`, params),
+      db.getAllAsync<ItemRow>(`SELECT * FROM items ${where} ORDER BY thread_id, message_id, position`, params),
+    ]);
+    const turnsBy = groupBy(turns, r => r.thread_id);
+    const messagesBy = groupBy(messages, r => r.thread_id);
+    const itemsBy = groupBy(items, r => `${r.thread_id}\n${r.message_id}`);
+
+    return sessions.map((s): Session => ({
+      thread_id: s.thread_id,
+      server_id: s.server_id,
+      created_at: s.created_at,
+      cwd: s.cwd,
+      permission_mode: s.permission_mode as PermissionMode,
+      parent_thread_id: s.parent_thread_id ?? undefined,
+      forked_from_turn_id: s.forked_from_turn_id ?? undefined,
+      turns: (turnsBy.get(s.thread_id) ?? []).map((t): Turn => ({
+        id: t.id,
+        thread_id: t.thread_id,
+        // A turn still running when the app closed has no outcome we can trust
+        status: t.status === 'active' ? 'interrupted' : t.status as TurnStatus,
+        user_content: t.user_content,
+        messages: [],
+        model: t.model ?? undefined,
+        started_at: t.started_at ?? undefined,
+        ended_at: t.ended_at ?? undefined,
+        error: t.error ?? undefined,
+      })),
+      messages: (messagesBy.get(s.thread_id) ?? []).map((m): ChatMessage => {
+        const stored = (itemsBy.get(`${s.thread_id}\n${m.id}`) ?? []).flatMap((i): StoredItem[] => {
+          let checked;
+          try {
+            checked = itemValidator(JSON.parse(i.data), 'item');
+          } catch {
+            checked = { ok: false as const, error: 'not valid JSON' };
+          }
+          if (!checked.ok) {
+            console.warn(`[Store] Skipping unreadable item ${i.id}: ${checked.error}`);
+            return [];
+          }
+          return [{ id: i.id, created_at: i.created_at, item: checked.value }];
+        });
+        return {
+          id: m.id,
+          role: m.role as MessageRole,
+          content: m.content,
+          ...(stored.length > 0 ? { items: stored, isStreaming: false } : {}),
+        };
+      }),
+    }));
+  });
+}
+
+export interface StoreStats {
+  sessions: number;
+  messages: number;
+  items: number;
+  audit: number;
+}
+
+export function storeStats(): Promise<StoreStats> {
+  return serial(async db => {
+    const row = await db.getFirstAsync<StoreStats>(
+      `SELECT (SELECT COUNT(*) FROM sessions) AS sessions,
+              (SELECT COUNT(*) FROM messages) AS messages,
+              (SELECT COUNT(*) FROM items) AS items,
+              (SELECT COUNT(*) FROM audit) AS audit`,
+    );
+    return row ?? { sessions: 0, messages: 0, items: 0, audit: 0 };
+  });
+}
+
+// ─── Audit log ───────────────────────────────────────────────────────────────
+
+interface AuditRow {
+  id: number;
+  thread_id: string;
+  at: number;
+  kind: AuditKind;
+  outcome: AuditOutcome;
+  tool_name: string | null;
+  tool_use_id: string | null;
+  tool_input: string | null;
+  detail: string | null;
+}
+
+export function recordAudit(entry: AuditEntry): Promise<void> {
+  return serial(async db => {
+    await db.runAsync(
+      `INSERT OR IGNORE INTO audit (thread_id, at, kind, outcome, tool_name, tool_use_id, tool_input, detail)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      entry.thread_id, entry.at, entry.kind, entry.outcome, entry.tool_name ?? null, entry.tool_use_id ?? null,
+      entry.tool_input === undefined ? null : JSON.stringify(entry.tool_input), entry.detail ?? null,
+    );
+  });
+}
+
+/** A session's audit log, oldest first. */
+export function loadAudit(thread_id: string): Promise<AuditEntry[]> {
+  return serial(async db => {
+    const rows = await db.getAllAsync<AuditRow>('SELECT * FROM audit WHERE thread_id = ? ORDER BY at, id', thread_id);
+    return rows.map(r => {
+      let tool_input: unknown;
+      try { tool_input = r.tool_input === null ? undefined : JSON.parse(r.tool_input); } catch { tool_input = r.tool_input; }
+      return {
+        id: r.id, thread_id: r.thread_id, at: r.at, kind: r.kind, outcome: r.outcome,
+        tool_name: r.tool_name ?? undefined, tool_use_id: r.tool_use_id ?? undefined, tool_input, detail: r.detail ?? undefined,
+      };
+    });
+  });
+}
+
+/** Delete audit entries recorded before `cutoff`. Returns how many were removed. */
+export function pruneAudit(cutoff: number): Promise<number> {
+  return serial(async db => (await db.runAsync('DELETE FROM audit WHERE at < ?', cutoff)).changes);
+}
+
+export function clearAudit(): Promise<void> {
+  return serial(async db => {
+    await db.runAsync('DELETE FROM audit');
+  });
+}
+
+// ─── Deleting ────────────────────────────────────────────────────────────────
+
+export function deleteStoredSession(thread_id: string): Promise<void> {
+  return serial(db => db.withTransactionAsync(async () => {
+    for (const table of TABLES) await db.runAsync(`DELETE FROM ${table} WHERE thread_id = ?`, thread_id);
+  }));
+}
+
+/** Delete sessions with no activity since `cutoff`. Returns how many were removed. */
+export function pruneSessions(cutoff: number): Promise<number> {
+  return serial(async db => {
+    let removed = 0;
+    await db.withTransactionAsync(async () => {
+      const stale = 'SELECT thread_id FROM sessions WHERE updated_at < ?';
+      for (const table of TABLES.filter(t => t !== 'sessions')) {
+        await db.runAsync(`DELETE FROM ${table} WHERE thread_id IN (${stale})`, cutoff);
+      }
+      removed = (await db.runAsync('DELETE FROM sessions WHERE updated_at < ?', cutoff)).changes;
+    });
+    return removed;
+  });
+}
+
+export function clearStore(): Promise<void> {
+  return serial(db => db.withTransactionAsync(async () => {
+    for (const table of TABLES) await db.runAsync(`DELETE FROM ${table}`);
+  }));
+}
@@ -0,0 +1,6 @@
+/** The part of a tool input worth a glance: the command, path, pattern or URL. */
+export function toolInputSummary(input: unknown): string | undefined {
+  const record = input as Record<string, unknown> | null | undefined;
+  const value = record?.command ?? record?.file_path ?? record?.path ?? record?.pattern ?? record?.url;
+  return typeof value === 'string' ? value : undefined;
+}
@@ -0,0 +1,58 @@
+import { RingBuffer, TRACE_FORMAT_VERSION, describeFrame, filterTrace, parseTrace, serializeTrace } from './trace';
+import { TraceFrame } from './types';
+
+const frame = (seq: number, patch: Partial<TraceFrame> = {}): TraceFrame => ({
+  seq, at: 1000 + seq, server_id: 'srv', direction: 'in', frame: { jsonrpc: '2.0' }, ...patch,
+});
+
+describe('RingBuffer', () => {
+  it('drops the oldest entries once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.size).toBe(3);
+    buffer.clear();
+    expect(buffer.toArray()).toEqual([]);
+  });
+});
+
+describe('describeFrame', () => {
+  it('finds the thread in params, results and returned threads', () => {
+    expect(describeFrame({ method: 'turn/start', params: { thread_id: 'a' } })).toEqual({ method: 'turn/start', thread_id: 'a' });
+    expect(describeFrame({ id: 1, result: { thread_id: 'b' } }, 'thread/start')).toEqual({ method: 'thread/start', thread_id: 'b' });
+    expect(describeFrame({ id: 2, result: { thread: { thread_id: 'c' } } }, 'thread/resume').thread_id).toBe('c');
+    expect(describeFrame('not json')).toEqual({ method: undefined, thread_id: undefined });
+  });
+});
+
+describe('filterTrace', () => {
+  it('matches method and thread by case-insensitive substring', () => {
+    const frames = [
+      frame(1, { method: 'turn/start', thread_id: 'ABC123' }),
+      frame(2, { method: 'item/progress', thread_id: 'abc123' }),
+      frame(3, { method: 'item/progress', thread_id: 'def456' }),
+    ];
+    expect(filterTrace(frames, { method: 'ITEM', thread_id: 'abc' }).map(f => f.seq)).toEqual([2]);
+    expect(filterTrace(frames, { method: '', thread_id: ' ' })).toHaveLength(3);
+  });
+});
+
+describe('parseTrace', () => {
+  it('reads back what serializeTrace wrote, ordered by time', () => {
+    const frames = [frame(2, { at: 5 }), frame(1, { at: 5 }), frame(3, { at: 1, direction: 'out', method: 'ping' })];
+    expect(parseTrace(serializeTrace(frames)).map(f => f.seq)).toEqual([3, 1, 2]);
+  });
+
+  it('accepts a bare array of frames', () => {
+    expect(parseTrace(JSON.stringify([frame(1)]))).toEqual([frame(1)]);
+  });
+
+  it('explains what is wrong with bad input', () => {
+    expect(() => parseTrace('{')).toThrow(/^Not valid JSON/);
+    expect(() => parseTrace(JSON.stringify({ version: TRACE_FORMAT_VERSION + 1, frames: [] })))
+      .toThrow(`Trace format v${TRACE_FORMAT_VERSION + 1} is newer than this app understands`);
+    expect(() => parseTrace(JSON.stringify({ frames: [{ ...frame(1), direction: 'sideways' }] })))
+      .toThrow("frames[0].direction: expected 'in' | 'out', got string");
+    expect(() => parseTrace(JSON.stringify({ version: 1 }))).toThrow('frames: expected array, got undefined');
+  });
+});
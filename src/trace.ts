@@ -0,0 +1,114 @@
+import { v } from './protocol';
+import { shareFile } from './share';
+import { TraceDirection, TraceFrame } from './types';
+
+export const TRACE_FORMAT_VERSION = 1;
+
+/** Fixed-capacity buffer that overwrites its oldest entry once full. */
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T) {
+    this.items[(this.start + this.count) % this.capacity] = item;
+    if (this.count < this.capacity) this.count++;
+    else this.start = (this.start + 1) % this.capacity;
+  }
+
+  toArray(): T[] {
+    const out: T[] = [];
+    for (let i = 0; i < this.count; i++) out.push(this.items[(this.start + i) % this.capacity] as T);
+    return out;
+  }
+
+  clear() {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  get size() {
+    return this.count;
+  }
+}
+
+/** Read a key from something that may or may not be a JSON object. */
+export function field(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/** Pull the method and thread_id out of a frame so the inspector can filter on them. */
+export function describeFrame(frame: unknown, responseMethod?: string): { method?: string; thread_id?: string } {
+  const method = field(frame, 'method');
+  const thread_id = [
+    field(field(frame, 'params'), 'thread_id'),
+    field(field(frame, 'result'), 'thread_id'),
+    field(field(field(frame, 'result'), 'thread'), 'thread_id'),
+  ].find((t): t is string => typeof t === 'string');
+  return { method: typeof method === 'string' ? method : responseMethod, thread_id };
+}
+
+export interface TraceFilter {
+  method: string;
+  thread_id: string;
+}
+
+/** Case-insensitive substring match on method and thread_id; empty filters match everything. */
+export function filterTrace(frames: TraceFrame[], filter: TraceFilter): TraceFrame[] {
+  const method = filter.method.trim().toLowerCase();
+  const thread = filter.thread_id.trim().toLowerCase();
+  return frames.filter(f =>
+    (!method || (f.method ?? '').toLowerCase().includes(method)) &&
+    (!thread || (f.thread_id ?? '').toLowerCase().includes(thread)));
+}
+
+// ─── Files ───────────────────────────────────────────────────────────────────
+
+interface TraceFile {
+  version: number;
+  exported_at: number;
+  frames: TraceFrame[];
+}
+
+const traceFrameValidator = v.object<TraceFrame>({
+  seq: v.number,
+  at: v.number,
+  server_id: v.string,
+  direction: v.literal<TraceDirection>('in', 'out'),
+  method: v.optional(v.string),
+  thread_id: v.optional(v.string),
+  frame: v.unknown,
+});
+
+export function serializeTrace(frames: TraceFrame[]): string {
+  const file: TraceFile = { version: TRACE_FORMAT_VERSION, exported_at: Date.now(), frames };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Parse an exported trace (or a bare array of frames). Throws with a readable message on bad input. */
+export function parseTrace(text: string): TraceFrame[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const version = field(data, 'version');
+  if (typeof version === 'number' && version > TRACE_FORMAT_VERSION) {
+    throw new Error(`Trace format v${version} is newer than this app understands (v${TRACE_FORMAT_VERSION})`);
+  }
+  const frames = Array.isArray(data) ? data : field(data, 'frames');
+  const checked = v.array(traceFrameValidator)(frames, 'frames');
+  if (!checked.ok) throw new Error(checked.error);
+  return [...checked.value].sort((a, b) => a.at - b.at || a.seq - b.seq);
+}
+
+/** Write the frames to a JSON file and open the share sheet for it. */
+export async function shareTrace(frames: TraceFrame[]): Promise<void> {
+  await shareFile('clode-trace.json', 'application/json', serializeTrace(frames), 'Export protocol trace');
+}
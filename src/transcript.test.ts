@@ -0,0 +1,105 @@
+import { TRANSCRIPT_FORMAT_VERSION, TranscriptOptions, transcriptHtml, transcriptJson, transcriptMarkdown } from './transcript';
+import { ChatMessage, Item, Session } from './types';
+
+const ALL: TranscriptOptions = { thinking: true, toolCalls: true, toolResults: true };
+const TEXT_ONLY: TranscriptOptions = { thinking: false, toolCalls: false, toolResults: false };
+
+function reply(id: string, ...items: Item[]): ChatMessage {
+  return { id, role: 'assistant', content: '', items: items.map((item, i) => ({ id: `${id}-${i}`, created_at: i, item })) };
+}
+
+function session(messages: ChatMessage[]): Session {
+  return {
+    thread_id: 'abcdef0123456789', server_id: 'srv', created_at: 0, cwd: '/home/me/project', permission_mode: 'default',
+    turns: [], messages, transcriptLoaded: true,
+  };
+}
+
+const conversation = session([
+  { id: 'u1', role: 'user', content: 'List the files' },
+  reply('turn-t1',
+    { type: 'thinking', thinking: 'Use ls.' },
+    { type: 'tool_call', tool_use_id: 'toolu_1', name: 'Bash', input: { command: 'ls' } },
+    { type: 'tool_result', tool_use_id: 'toolu_1', content: 'a.ts\nb.ts' },
+    { type: 'text', text: 'Two files: `a.ts` and `b.ts`.' },
+  ),
+  { id: 'streaming-t2', role: 'assistant', content: '', streamingItems: [], isStreaming: true, items: [] },
+  { id: 'u2', role: 'user', content: '' },
+]);
+
+describe('transcriptMarkdown', () => {
+  it('writes each turn under a heading, with the parts the options ask for', () => {
+    const md = transcriptMarkdown(conversation, ALL);
+    expect(md).toMatch(/^# Session #abcdef01\n\n`\/home\/me\/project`/);
+    expect(md).toContain('### You\n\nList the files');
+    expect(md).toContain('<summary>Thinking</summary>\n\nUse ls.');
+    expect(md).toContain('**Bash** `ls`\n\n```json\n{\n  "command": "ls"\n}\n```');
+    expect(md).toContain('**Result**\n\n```\na.ts\nb.ts\n```');
+    expect(md).toContain('### Claude');
+  });
+
+  it('leaves out thinking and tools when asked, and never includes unsettled messages', () => {
+    const md = transcriptMarkdown(conversation, TEXT_ONLY);
+    expect(md).not.toContain('Thinking');
+    expect(md).not.toContain('**Bash**');
+    expect(md).toContain('Two files: `a.ts` and `b.ts`.');
+    expect(md.match(/### /g)).toHaveLength(2);
+  });
+
+  it('fences tool output with more backticks than it contains', () => {
+    const md = transcriptMarkdown(session([reply('r', { type: 'tool_result', tool_use_id: 't', content: 'has ``` inside' })]), ALL);
+    expect(md).toContain('````\nhas ``` inside\n````');
+  });
+});
+
+describe('transcriptJson', () => {
+  it('keeps every item as sent, with the format version', () => {
+    const data = JSON.parse(transcriptJson(conversation));
+    expect(data.version).toBe(TRANSCRIPT_FORMAT_VERSION);
+    expect(data.session.thread_id).toBe('abcdef0123456789');
+    expect(data.session.messages.map((m: ChatMessage) => m.id)).toEqual(['u1', 'turn-t1']);
+    expect(data.session.messages[1].items).toHaveLength(4);
+  });
+});
+
+describe('transcriptHtml', () => {
+  const html = (text: string) => {
+    const page = transcriptHtml(session([reply('r', { type: 'text', text })]), TEXT_ONLY);
+    return page.slice(page.indexOf('<div class="assistant">') + 23, page.lastIndexOf('</div>'));
+  };
+
+  it('renders assistant Markdown as the chat does', () => {
+    expect(html('# Title\n\n**bold**, _em_ and ~~gone~~')).toBe('<h2>Title</h2><p><strong>bold</strong>, <em>em</em> and <del>gone</del></p>');
+    expect(html('- one\n- [x] two\n\n3. three')).toBe('<ul><li>one</li><li class="task">☑ two</li></ul><ol start="3"><li>three</li></ol>');
+    expect(html('| a | b |\n|:-|-:|\n| 1 | 2 |')).toBe(
+      '<table><thead><tr><th style="text-align: left">a</th><th style="text-align: right">b</th></tr></thead>'
+      + '<tbody><tr><td style="text-align: left">1</td><td style="text-align: right">2</td></tr></tbody></table>',
+    );
+    expect(html('> quoted\n\n---')).toBe('<blockquote><p>quoted</p></blockquote><hr>');
+  });
+
+  it('escapes everything that came from the model', () => {
+    expect(html('<script>alert(1)</script>')).not.toContain('<script>');
+    expect(html('a <b>b</b> & `<i>`')).toBe('<p>a &lt;b&gt;b&lt;/b&gt; &amp; <code>&lt;i&gt;</code></p>');
+    expect(html('```html\n<p class="x">\n```')).toBe('<pre><code>&lt;p class=&quot;x&quot;&gt;</code></pre>');
+  });
+
+  it('links only what the chat would open without asking', () => {
+    expect(html('[docs](https://example.com/?a=1&b=2)')).toBe('<p><a href="https://example.com/?a=1&amp;b=2">docs</a></p>');
+    expect(html('[call](tel:123)')).toBe('<p>call (tel:123)</p>');
+    expect(html('[x](javascript:alert(1))')).not.toContain('href');
+  });
+
+  it('keeps line breaks inside a paragraph', () => {
+    expect(html('one\ntwo')).toBe('<p>one<br>two</p>');
+  });
+
+  it('escapes user messages and tool input', () => {
+    const page = transcriptHtml(session([
+      { id: 'u', role: 'user', content: '<img src=x>' },
+      reply('r', { type: 'tool_call', tool_use_id: 't', name: 'Bash', input: { command: 'echo "<b>"' } }),
+    ]), ALL);
+    expect(page).toContain('<div class="user">&lt;img src=x&gt;</div>');
+    expect(page).toContain('<code>echo &quot;&lt;b&gt;&quot;</code>');
+  });
+});
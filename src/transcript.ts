@@ -0,0 +1,305 @@
+import { MarkedToken, Token, Tokens } from 'marked';
+import { decodeEntities, isSafeLink, lexMarkdown } from './markdown';
+import { shareFile } from './share';
+import { toolInputSummary } from './toolInput';
+import { ChatMessage, Item, Session, StoredItem } from './types';
+import { palette, theme } from './theme';
+
+export const TRANSCRIPT_FORMAT_VERSION = 1;
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+/** Which optional parts of a turn go into Markdown and HTML exports. JSON always has everything. */
+export interface TranscriptOptions {
+  thinking: boolean;
+  toolCalls: boolean; // tool calls and file changes
+  toolResults: boolean; // tool results and command output
+}
+
+const FORMAT_META: Record<TranscriptFormat, { ext: string; mimeType: string }> = {
+  markdown: { ext: 'md', mimeType: 'text/markdown' },
+  json: { ext: 'json', mimeType: 'application/json' },
+  html: { ext: 'html', mimeType: 'text/html' },
+};
+
+function included(item: Item, options: TranscriptOptions): boolean {
+  switch (item.type) {
+    case 'text': return true;
+    case 'thinking': return options.thinking;
+    case 'tool_call':
+    case 'file_change':
+      return options.toolCalls;
+    case 'tool_result':
+    case 'command_output':
+      return options.toolResults;
+  }
+}
+
+/** Settled messages only; partial streaming output isn't part of the record yet. */
+function exportable(session: Session): ChatMessage[] {
+  return session.messages.filter(m => m.role === 'user' ? !!m.content : (m.items?.length ?? 0) > 0);
+}
+
+function title(session: Session): string {
+  return `Session #${session.thread_id.slice(0, 8)}`;
+}
+
+function exitLabel(exit_code?: number): string {
+  return exit_code === undefined ? 'killed' : `exit ${exit_code}`;
+}
+
+// ─── Markdown ────────────────────────────────────────────────────────────────
+
+/** A fence longer than any run of backticks in the content, so the block can't end early. */
+function fenced(content: string, lang = ''): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${lang}\n${content.replace(/\n$/, '')}\n${fence}`;
+}
+
+function itemMarkdown(item: Item): string {
+  switch (item.type) {
+    case 'text':
+      return item.text;
+    case 'thinking':
+      return `<details>\n<summary>Thinking</summary>\n\n${item.thinking}\n\n</details>`;
+    case 'tool_call': {
+      const summary = toolInputSummary(item.input);
+      return `**${item.name}**${summary ? ` \`${summary.split('\n')[0]}\`` : ''}\n\n${fenced(JSON.stringify(item.input, null, 2), 'json')}`;
+    }
+    case 'tool_result':
+      return `${item.is_error ? '**Error**' : '**Result**'}\n\n${fenced(item.content)}`;
+    case 'file_change': {
+      const path = item.kind === 'rename' && item.old_path ? `${item.old_path}\` → \`${item.path}` : item.path;
+      const counts = item.lines_added !== undefined || item.lines_removed !== undefined
+        ? ` (+${item.lines_added ?? 0} −${item.lines_removed ?? 0})`
+        : '';
+      return `- ${item.kind} \`${path}\`${counts}`;
+    }
+    case 'command_output': {
+      const body = [item.command && `$ ${item.command}`, item.stdout, item.stderr].filter(Boolean).join('\n');
+      return `${fenced(body, 'console')}\n\n_${exitLabel(item.exit_code)}_`;
+    }
+  }
+}
+
+export function transcriptMarkdown(session: Session, options: TranscriptOptions): string {
+  const out = [
+    `# ${title(session)}`,
+    `\`${session.cwd}\` · started ${new Date(session.created_at).toLocaleString()}`,
+  ];
+  for (const m of exportable(session)) {
+    if (m.role === 'user') {
+      out.push('### You', m.content);
+      continue;
+    }
+    const items = (m.items ?? []).filter(i => included(i.item, options));
+    if (items.length > 0) out.push('### Claude', ...items.map(i => itemMarkdown(i.item)));
+  }
+  return `${out.join('\n\n')}\n`;
+}
+
+// ─── JSON ────────────────────────────────────────────────────────────────────
+
+/** Everything, with items exactly as the server sent them. */
+export function transcriptJson(session: Session): string {
+  const messages = exportable(session).map(({ id, role, content, items }) => ({ id, role, content, items }));
+  return JSON.stringify({
+    version: TRANSCRIPT_FORMAT_VERSION,
+    exported_at: Date.now(),
+    session: {
+      thread_id: session.thread_id,
+      server_id: session.server_id,
+      created_at: session.created_at,
+      cwd: session.cwd,
+      permission_mode: session.permission_mode,
+      turns: session.turns.map(({ messages: _messages, ...turn }) => turn),
+      messages,
+    },
+  }, null, 2);
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Source text as it reads in the chat: entities decoded, then escaped for HTML, line breaks kept. */
+function plainHtml(text: string): string {
+  return escapeHtml(decodeEntities(text)).replace(/\n/g, '<br>');
+}
+
+function inlineHtml(tokens: Token[] | undefined): string {
+  return (tokens ?? []).map(token => {
+    const t = token as MarkedToken;
+    switch (t.type) {
+      case 'text': return t.tokens ? inlineHtml(t.tokens) : plainHtml(t.text);
+      case 'escape': return escapeHtml(t.text);
+      case 'strong': return `<strong>${inlineHtml(t.tokens)}</strong>`;
+      case 'em': return `<em>${inlineHtml(t.tokens)}</em>`;
+      case 'del': return `<del>${inlineHtml(t.tokens)}</del>`;
+      case 'codespan': return `<code>${escapeHtml(decodeEntities(t.text))}</code>`;
+      // Links the chat would ask about before opening aren't made clickable, just shown
+      case 'link': return isSafeLink(t.href)
+        ? `<a href="${escapeHtml(t.href)}">${inlineHtml(t.tokens)}</a>`
+        : `${inlineHtml(t.tokens)} (${escapeHtml(t.href)})`;
+      case 'image': return isSafeLink(t.href) ? `<a href="${escapeHtml(t.href)}">${escapeHtml(t.text || t.href)}</a>` : escapeHtml(t.text || t.href);
+      case 'br': return '<br>';
+      case 'checkbox': return '';
+      default: return escapeHtml(t.raw);
+    }
+  }).join('');
+}
+
+function listItemHtml(item: Tokens.ListItem): string {
+  const marker = item.task ? `${item.checked ? '☑' : '☐'} ` : '';
+  return `<li${item.task ? ' class="task"' : ''}>${marker}${blocksHtml(item.tokens)}</li>`;
+}
+
+function tableHtml(table: Tokens.Table): string {
+  const cell = (tag: 'th' | 'td', c: Tokens.TableCell) =>
+    `<${tag}${c.align ? ` style="text-align: ${c.align}"` : ''}>${inlineHtml(c.tokens)}</${tag}>`;
+  const rows = table.rows.map(row => `<tr>${row.map(c => cell('td', c)).join('')}</tr>`);
+  return `<table><thead><tr>${table.header.map(c => cell('th', c)).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function blocksHtml(tokens: Token[]): string {
+  return tokens.map(token => {
+    const t = token as MarkedToken;
+    switch (t.type) {
+      case 'heading': {
+        const level = Math.min(6, t.depth + 1); // the page title is the only h1
+        return `<h${level}>${inlineHtml(t.tokens)}</h${level}>`;
+      }
+      case 'paragraph': return `<p>${inlineHtml(t.tokens)}</p>`;
+      case 'text': return t.tokens ? inlineHtml(t.tokens) : plainHtml(t.text);
+      case 'code': return `<pre><code>${escapeHtml(t.text)}</code></pre>`;
+      case 'list': {
+        const tag = t.ordered ? 'ol' : 'ul';
+        const start = t.ordered && t.start !== '' && t.start !== 1 ? ` start="${t.start}"` : '';
+        return `<${tag}${start}>${t.items.map(listItemHtml).join('')}</${tag}>`;
+      }
+      case 'blockquote': return `<blockquote>${blocksHtml(t.tokens)}</blockquote>`;
+      case 'table': return tableHtml(t);
+      case 'hr': return '<hr>';
+      case 'space':
+      case 'def':
+      case 'checkbox':
+        return '';
+      default: return `<p>${escapeHtml(t.raw.trim())}</p>`;
+    }
+  }).join('');
+}
+
+/** Assistant text through the same Markdown lexer the chat uses, with everything from the model escaped. */
+function textHtml(text: string): string {
+  return blocksHtml(lexMarkdown(text));
+}
+
+function itemHtml(item: StoredItem): string {
+  const i = item.item;
+  switch (i.type) {
+    case 'text':
+      return textHtml(i.text);
+    case 'thinking':
+      return `<details class="thinking"><summary>thinking</summary><p>${escapeHtml(i.thinking).replace(/\n/g, '<br>')}</p></details>`;
+    case 'tool_call': {
+      const summary = toolInputSummary(i.input);
+      return `<details class="tool"><summary><b>${escapeHtml(i.name)}</b>${summary ? ` <code>${escapeHtml(summary)}</code>` : ''}</summary>`
+        + `<pre>${escapeHtml(JSON.stringify(i.input, null, 2))}</pre></details>`;
+    }
+    case 'tool_result':
+      return `<div class="result${i.is_error ? ' error' : ''}"><pre>${escapeHtml(i.content)}</pre></div>`;
+    case 'file_change': {
+      const path = i.kind === 'rename' && i.old_path ? `${i.old_path} → ${i.path}` : i.path;
+      const counts = i.lines_added !== undefined || i.lines_removed !== undefined
+        ? ` <span class="added">+${i.lines_added ?? 0}</span> <span class="removed">−${i.lines_removed ?? 0}</span>`
+        : '';
+      return `<div class="file">${escapeHtml(i.kind)} <code>${escapeHtml(path)}</code>${counts}</div>`;
+    }
+    case 'command_output':
+      return `<div class="result${i.exit_code === 0 ? '' : ' error'}"><pre>`
+        + `${i.command ? `<b>$ ${escapeHtml(i.command)}</b>\n` : ''}${escapeHtml(i.stdout)}`
+        + `${i.stderr ? `<span class="removed">${escapeHtml(i.stderr)}</span>` : ''}</pre>`
+        + `<small>${exitLabel(i.exit_code)}</small></div>`;
+  }
+}
+
+const HTML_STYLE = `
+  body { background: ${theme.bg}; color: ${palette.oldWhite}; font: 15px/1.55 -apple-system, system-ui, sans-serif; max-width: 820px; margin: 0 auto; padding: 24px 16px; }
+  h1 { color: ${theme.fg}; font-size: 20px; margin: 0; }
+  .meta { color: ${theme.fgDimmer}; font-size: 12px; margin: 4px 0 24px; }
+  .user { background: ${theme.accent}; color: #fff; border-radius: 16px 16px 4px 16px; padding: 10px 14px; margin: 12px 0 12px auto; max-width: 80%; width: fit-content; white-space: pre-wrap; }
+  .assistant { background: ${theme.surface}; border: 1px solid ${theme.border}; border-radius: 16px 16px 16px 4px; padding: 12px 16px; margin: 12px 0; }
+  .assistant > * + * { margin-top: 8px; }
+  p { margin: 0; }
+  code { font-family: ui-monospace, Menlo, monospace; font-size: 13px; color: ${theme.synOperator}; }
+  pre { background: ${theme.bgDark}; border-radius: 8px; padding: 10px; overflow-x: auto; font: 12px/1.5 ui-monospace, Menlo, monospace; color: ${theme.fg}; white-space: pre-wrap; margin: 0; }
+  pre code { color: inherit; }
+  h2, h3, h4, h5, h6 { color: ${theme.fg}; margin: 0; }
+  h2 { font-size: 20px; } h3 { font-size: 18px; } h4 { font-size: 16px; } h5, h6 { font-size: 15px; }
+  a { color: ${theme.link}; }
+  ul, ol { margin: 0; padding-left: 22px; }
+  li.task { list-style: none; }
+  blockquote { border-left: 3px solid ${theme.border}; margin: 0; padding-left: 10px; opacity: 0.85; }
+  hr { border: 0; border-top: 1px solid ${theme.border}; }
+  table { border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid ${theme.border}; padding: 5px 8px; text-align: left; }
+  th { background: ${theme.surfaceAlt}; }
+  summary { cursor: pointer; color: ${theme.fgDim}; }
+  .thinking p { color: ${theme.fgDimmer}; font-style: italic; margin-top: 6px; }
+  .tool { border-left: 3px solid ${theme.synFunction}; padding-left: 10px; }
+  .tool pre { margin-top: 6px; }
+  .result { border-left: 3px solid ${theme.green}; padding-left: 10px; }
+  .result.error { border-left-color: ${theme.red}; }
+  .result small { color: ${theme.fgDimmer}; }
+  .file { font-size: 13px; color: ${theme.fgDim}; }
+  .added { color: ${theme.green}; }
+  .removed { color: ${theme.red}; }
+`;
+
+export function transcriptHtml(session: Session, options: TranscriptOptions): string {
+  const body = exportable(session).map(m => {
+    if (m.role === 'user') return `<div class="user">${escapeHtml(m.content)}</div>`;
+    const items = (m.items ?? []).filter(i => included(i.item, options));
+    return items.length > 0 ? `<div class="assistant">${items.map(itemHtml).join('\n')}</div>` : '';
+  }).join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title(session))}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title(session))}</h1>
+<div class="meta">${escapeHtml(session.cwd)} · started ${escapeHtml(new Date(session.created_at).toLocaleString())}</div>
+${body}
+</body>
+</html>
+`;
+}
+
+// ─── Files ───────────────────────────────────────────────────────────────────
+
+export function renderTranscript(session: Session, format: TranscriptFormat, options: TranscriptOptions): string {
+  switch (format) {
+    case 'markdown': return transcriptMarkdown(session, options);
+    case 'json': return transcriptJson(session);
+    case 'html': return transcriptHtml(session, options);
+  }
+}
+
+/** Write the transcript to a file and open the share sheet for it. */
+export async function shareTranscript(session: Session, format: TranscriptFormat, options: TranscriptOptions): Promise<void> {
+  const { ext, mimeType } = FORMAT_META[format];
+  await shareFile(
+    `clode-${session.thread_id.slice(0, 8)}.${ext}`, mimeType, renderTranscript(session, format, options), `Export ${title(session)}`,
+  );
+}
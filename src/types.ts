@@ -4,21 +4,67 @@ export type ItemType = 'text' | 'thinking' | 'tool_call' | 'tool_result' | 'file
 
 export interface TextItem { type: 'text'; text: string }
 export interface ThinkingItem { type: 'thinking'; thinking: string }
-export interface ToolCallItem { type: 'tool_call'; tool_use_id: string; name: string; input: unknown }
+export interface ToolCallItem { type: 'tool_call'; tool_use_id: string; name: string; input: Record<string, unknown> }
 export interface ToolResultItem { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean }
-export type Item = TextItem | ThinkingItem | ToolCallItem | ToolResultItem;
+export type FileChangeKind = 'create' | 'modify' | 'delete' | 'rename';
+export interface FileChangeItem {
+  type: 'file_change';
+  path: string;
+  kind: FileChangeKind;
+  old_path?: string; // renames only
+  lines_added?: number;
+  lines_removed?: number;
+  tool_use_id?: string;
+}
+export interface CommandOutputItem {
+  type: 'command_output';
+  command?: string;
+  stdout: string;
+  stderr: string;
+  exit_code?: number; // absent when the process was killed
+  tool_use_id?: string;
+}
+export type Item = TextItem | ThinkingItem | ToolCallItem | ToolResultItem | FileChangeItem | CommandOutputItem;
 
 export interface StoredItem { id: string; created_at: number; item: Item }
 
 export type MessageRole = 'user' | 'assistant';
 
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export type DeliveryStatus = OutboxStatus | 'sent';
+
 export interface ChatMessage {
   id: string;
   role: MessageRole;
   content: string; // for user messages
   items?: StoredItem[]; // for assistant messages
-  streamingText?: string; // accumulating text during streaming
+  streamingItems?: StreamingItem[]; // partial items still being produced, in arrival order
   isStreaming?: boolean;
+  delivery?: DeliveryStatus; // user messages sent from this device
+  deliveryError?: string;
+}
+
+export type StreamingItemType = 'text' | 'thinking' | 'tool_input' | 'tool_output';
+
+/** An item that is still streaming in through item/progress deltas. */
+export interface StreamingItem {
+  key: string; // the server's item id, or the delta type for servers that don't send one
+  type: StreamingItemType;
+  text: string; // accumulated so far; partial JSON for tool_input
+  tool_use_id?: string;
+  name?: string; // tool name, for tool_input and tool_output
+}
+
+/** A prompt waiting to be sent; persisted so it survives restarts and dropped connections. */
+export interface OutboxEntry {
+  id: string;
+  thread_id: string;
+  content: string;
+  model?: string;
+  created_at: number;
+  status: OutboxStatus;
+  error?: string;
 }
 
 export type TurnStatus = 'active' | 'completed' | 'interrupted' | 'error';
@@ -29,10 +75,15 @@ export interface Turn {
   status: TurnStatus;
   user_content: string;
   messages: ChatMessage[];
+  model?: string;
+  started_at?: number;
+  ended_at?: number;
+  error?: string; // why the turn failed, or was cut short
 }
 
 export interface Session {
   thread_id: string;
+  server_id: string; // ServerProfile.id of the server that owns the thread
   created_at: number;
   cwd: string;
   permission_mode: PermissionMode;
@@ -43,6 +94,10 @@ export interface Session {
   lastBlockedContent?: string; // last user message that got blocked
   hasPermissionDenial?: boolean;
   permissionDenials?: PermissionDenial[]; // server reported permission denials
+  pendingApprovals?: ApprovalRequest[]; // gated tool calls the server is holding until they're answered
+  transcriptLoaded?: boolean; // messages fetched via thread/resume (or created locally)
+  parent_thread_id?: string; // set on forks: the thread this one was copied from
+  forked_from_turn_id?: string; // last turn copied from the parent; absent when the fork started empty
 }
 
 export interface PermissionDenial {
@@ -51,4 +106,138 @@ export interface PermissionDenial {
   tool_input?: Record<string, unknown>;
 }
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+/** A tool call the server has paused on until the user allows or denies it. */
+export interface ApprovalRequest {
+  request_id: string;
+  turn_id: string;
+  tool_name: string;
+  tool_use_id: string;
+  tool_input?: Record<string, unknown>;
+  responding?: boolean; // an answer is on its way to the server
+}
+
+export type ApprovalDecision = 'allow_once' | 'allow_always' | 'deny';
+
+export type AuditKind = 'mode' | 'approval' | 'tool';
+export type AuditOutcome = 'allowed' | 'denied' | 'succeeded' | 'failed' | 'error';
+
+/** One line of a session's audit log: a permission mode change, an approval answer, or a tool call that ran. */
+export interface AuditEntry {
+  id?: number; // assigned by the store
+  thread_id: string;
+  at: number;
+  kind: AuditKind;
+  outcome: AuditOutcome;
+  tool_name?: string;
+  tool_use_id?: string;
+  tool_input?: unknown;
+  detail?: string; // old → new mode, scope or denial reason, error message
+}
+
+export type RuleEffect = 'allow' | 'deny';
+
+/** A rule as the server evaluates it. `rule` is `Tool` or `Tool(specifier)`, e.g. `Bash(npm test:*)` or `Edit(src/**)`. */
+export interface PermissionRuleSpec {
+  effect: RuleEffect;
+  rule: string;
+}
+
+/**
+ * A permission rule saved on the device. Session rules apply to one thread;
+ * project rules to every thread started in `cwd` on that server.
+ */
+export interface PermissionRule extends PermissionRuleSpec {
+  id: string;
+  server_id: string;
+  scope: 'session' | 'project';
+  thread_id?: string; // session rules
+  cwd?: string; // project rules
+  created_at: number;
+}
+
+// Thread shapes as returned by thread/list and thread/resume. thread/list omits
+// per-turn items; thread/resume includes the full transcript.
+export interface ServerTurn {
+  id: string;
+  status: TurnStatus;
+  user_content: string;
+  items?: StoredItem[];
+  model?: string;
+  started_at?: number;
+  ended_at?: number;
+  error?: string;
+}
+
+export interface ServerThread {
+  thread_id: string;
+  created_at: number;
+  cwd: string;
+  permission_mode: PermissionMode;
+  active_turn_id?: string;
+  turns: ServerTurn[];
+  parent_thread_id?: string;
+  forked_from_turn_id?: string;
+}
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+/** What the server reported about itself in the initialize response. */
+export interface ServerInfo {
+  name: string;
+  version: string;
+  protocol_version: number;
+  capabilities: string[];
+  models: string[];
+  home_dir?: string;
+}
+
+export interface ServerConnection {
+  server_id: string;
+  url: string;
+  status: ConnectionStatus;
+  lastError: string | null;
+  reconnectAttempt: number;
+  latencyMs: number | null; // round-trip time of the last heartbeat
+  serverInfo: ServerInfo | null;
+}
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string; // without the ?key= pair parameter
+  pairKey: string;
+  lastConnectedAt?: number;
+  lastError?: string;
+}
+
+export type ProtocolDiagnosticKind =
+  | 'parse_error'        // frame was not valid JSON
+  | 'invalid_message'    // JSON, but not a JSON-RPC response or notification
+  | 'unknown_method'     // notification this client doesn't implement
+  | 'invalid_params'     // known notification with malformed params
+  | 'invalid_result'     // response that doesn't match the request's result shape
+  | 'unmatched_response'; // response to a request that already timed out or never existed
+
+/** A server message that was rejected instead of being applied to session state. */
+export interface ProtocolDiagnostic {
+  id: number;
+  at: number;
+  server_id: string;
+  kind: ProtocolDiagnosticKind;
+  method?: string;
+  error: string;
+  raw?: unknown;
+}
+
+export type TraceDirection = 'in' | 'out';
+
+/** One JSON-RPC frame as it crossed the socket, kept for the protocol inspector. */
+export interface TraceFrame {
+  seq: number;
+  at: number;
+  server_id: string;
+  direction: TraceDirection;
+  method?: string; // for responses, the method of the request they answer
+  thread_id?: string;
+  frame: unknown; // parsed JSON, or the raw text when it didn't parse
+}